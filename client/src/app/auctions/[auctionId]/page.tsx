@@ -0,0 +1,103 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useClearNodeConnection } from '@/hooks/useClearNodeConnection';
+import { useWallet } from '@/hooks/useWallet';
+import { CLEARNODE_CONFIG } from '@/config/clearnode';
+import { DEFAULT_CHAIN } from '@/config/chains';
+import Auction from '@/components/Auction';
+import WalletPanel from '@/components/WalletPanel';
+import PageShell from '@/components/PageShell';
+
+export default function AuctionPage() {
+  const params = useParams<{ auctionId: string }>();
+  const auctionId = decodeURIComponent(params.auctionId);
+  const { wallet, address, chainId, isWrongChain, switchChain } = useWallet();
+
+  const {
+    connectionStatus,
+    isAuthenticated,
+    error,
+    connect,
+    sendRequest,
+  } = useClearNodeConnection(CLEARNODE_CONFIG.WS_URL, wallet);
+
+  return (
+    <PageShell>
+      <Link href="/" className="inline-block mb-6 text-purple-300 hover:text-purple-200 transition-colors">
+        ← All auctions
+      </Link>
+
+      {/* Connection Status */}
+      <div className="mb-8 p-6 rounded-xl border border-gray-700/50 bg-gray-900/40 backdrop-blur-xl shadow-2xl transform hover:scale-[1.02] transition-all duration-300">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-white mb-2">Connection Status</h2>
+            <p className="text-gray-300 mb-2">
+              Status: <span className={`font-medium ${connectionStatus === 'Connected' ? 'text-green-400' : 'text-yellow-400'}`}>
+                {connectionStatus}
+              </span>
+            </p>
+            {error && <p className="text-red-400 mb-2">{error}</p>}
+          </div>
+          {!isAuthenticated && (
+            <button
+              onClick={connect}
+              className="bg-gradient-to-r from-blue-500 to-purple-600 text-white px-6 py-3 rounded-lg font-medium 
+                        hover:from-blue-600 hover:to-purple-700 transform hover:scale-105 transition-all duration-200 
+                        focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-opacity-50 shadow-lg"
+            >
+              Connect to ClearNode
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Wallet Status */}
+      <div className="mb-8 p-6 rounded-xl border border-gray-700/50 bg-gray-900/40 backdrop-blur-xl shadow-2xl">
+        <h2 className="text-xl font-semibold text-white mb-2">Wallet Status</h2>
+        <div className="flex items-center space-x-2">
+          <div className={`w-3 h-3 rounded-full ${address ? 'bg-green-400' : 'bg-red-400'} animate-pulse`}></div>
+          <p className="text-gray-300">
+            {address ? (
+              <span className="font-mono bg-gray-800 px-3 py-1 rounded-lg">
+                {`${address.slice(0, 6)}...${address.slice(-4)}`}
+              </span>
+            ) : 'Not Connected'}
+          </p>
+        </div>
+        {isWrongChain && (
+          <div className="mt-4 flex items-center justify-between">
+            <p className="text-yellow-400">
+              Your wallet is on chain {chainId}, which this app does not support.
+            </p>
+            <button
+              onClick={() => switchChain().catch((error) => console.error('Failed to switch network:', error))}
+              className="bg-yellow-500/20 text-yellow-300 px-4 py-2 rounded-lg font-medium hover:bg-yellow-500/30 transition-colors"
+            >
+              Switch to chain {DEFAULT_CHAIN.chainId}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Deposits, channel and withdrawals */}
+      {wallet && isAuthenticated && (
+        <WalletPanel wallet={wallet} chainId={chainId} sendRequest={sendRequest} />
+      )}
+
+      {/* Auction Component */}
+      {wallet && isAuthenticated && (
+        <div className="transform transition-all duration-300 hover:scale-[1.01]">
+          <Auction 
+            wallet={wallet} 
+            auctionId={auctionId}
+            isAuthenticated={isAuthenticated}
+            connectionStatus={connectionStatus}
+          />
+        </div>
+      )}
+    </PageShell>
+  );
+}
@@ -1,7 +1,21 @@
-import { useState, useEffect } from 'react';
-import { useWebSocket } from '../hooks/useWebSocket';
+import { useState, useEffect, useRef } from 'react';
+import {
+  useWebSocket,
+  type AuctionAsset,
+  type AuctionFormat,
+  type AuctionOutcome,
+  type AuctionStatus,
+  type BidMessage,
+  type DutchPriceSchedule,
+  type IncrementPolicy,
+  type SealedBidRule,
+  type SoftCloseRule,
+  type StandingBid
+} from '../hooks/useWebSocket';
 import { toast } from 'react-toastify';
 import { WalletClient } from 'viem';
+import SealedBidForm from './SealedBidForm';
+import UnitBidForm from './UnitBidForm';
 
 interface AuctionProps {
   auctionId: string;
@@ -15,45 +29,132 @@ interface AuctionState {
   description: string;
   startingPrice: bigint;
   endTime: Date;
+  softClose: SoftCloseRule | null;
+  hasReserve: boolean;
+  reserveMet: boolean;
+  incrementPolicy: IncrementPolicy | null;
+  minNextBid: bigint;
   seller: string;
-  status: 'active' | 'ended' | 'finalizing';
+  format: AuctionFormat;
+  asset: AuctionAsset;
+  status: AuctionStatus;
+  outcome: AuctionOutcome | null;
+  cancellationPenalty: bigint | null;
+  sealedBid: SealedBidRule | null;
+  revealEndTime: Date | null;
+  commitmentsTotal: number;
+  revealsTotal: number;
+  dutchSchedule: DutchPriceSchedule | null;
+  currentPrice: bigint | null;
+  units: number;
+  standingBids: StandingBid[];
   currentBid: bigint;
   currentBidder: string | null;
   bids: Array<{
     bidder: string;
     amount: bigint;
+    quantity?: number;
+    proxy?: boolean;
     timestamp: number;
   }>;
+  bidsTotal: number;
 }
 
-// Helper functions for USDC decimal handling (6 decimals internally, display 2)
-const formatUSDC = (amount: bigint): string => {
-  const amountStr = amount.toString().padStart(7, '0');
-  const dollars = amountStr.slice(0, -6) || '0';
-  const cents = amountStr.slice(-6, -4).padEnd(2, '0');  // Only take first 2 decimal places
-  return `${dollars}.${cents}`;
+const toBid = (bid: BidMessage) => ({
+  bidder: bid.bidder,
+  amount: BigInt(bid.amount),
+  quantity: bid.quantity,
+  proxy: bid.proxy,
+  timestamp: new Date(bid.timestamp).getTime()
+});
+
+// Asset of auctions that do not name one
+export const DEFAULT_ASSET: AuctionAsset = { symbol: 'usdc', decimals: 6 };
+
+// Most decimal places amounts are shown and entered with
+const MAX_DISPLAY_DECIMALS = 6;
+
+const getDisplayDecimals = (asset: AuctionAsset): number => Math.min(asset.decimals, MAX_DISPLAY_DECIMALS);
+
+// Helper functions for decimal handling (the asset's decimals internally, display at least 2)
+export const formatAmount = (amount: bigint, asset: AuctionAsset): string => {
+  const amountStr = amount.toString().padStart(asset.decimals + 1, '0');
+  const whole = amountStr.slice(0, amountStr.length - asset.decimals);
+  const places = getDisplayDecimals(asset);
+  const fraction = amountStr
+    .slice(amountStr.length - asset.decimals, amountStr.length - asset.decimals + places)
+    .replace(/0+$/, '')
+    .padEnd(Math.min(places, 2), '0');
+  return fraction ? `${whole}.${fraction}` : whole;
 };
 
-const parseUSDC = (amount: string): bigint => {
-  try {
-    // Handle empty or invalid input
-    if (!amount || isNaN(Number(amount))) {
-      return BigInt(0);
-    }
-    
-    // Convert the number to a fixed 2 decimal place string first
-    const normalizedAmount = Number(amount).toFixed(2);
-    const [dollars, cents = '0'] = normalizedAmount.split('.');
-    
-    // Remove any commas from the dollars
-    const cleanDollars = dollars.replace(/,/g, '');
-    
-    // Pad with zeros for USDC's 6 decimal places (adding 4 more zeros after cents)
-    return BigInt(cleanDollars + cents.padEnd(2, '0') + '0000');
-  } catch (error) {
-    console.error('Error parsing USDC amount:', error);
+export const parseAmount = (amount: string, asset: AuctionAsset): bigint => {
+  // Remove any commas, then split off the decimal places
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(amount.trim().replace(/,/g, ''));
+
+  // Handle empty or invalid input
+  if (!match || !(match[1] || match[2])) {
     return BigInt(0);
   }
+
+  // Pad the decimal places the form accepts out to the asset's decimals
+  const fraction = (match[2] || '').slice(0, getDisplayDecimals(asset)).padEnd(asset.decimals, '0');
+  return BigInt((match[1] || '0') + fraction);
+};
+
+// Format an amount with the asset's symbol, e.g. "12.50 USDC"
+export const formatPrice = (amount: bigint, asset: AuctionAsset): string =>
+  `${formatAmount(amount, asset)} ${asset.symbol.toUpperCase()}`;
+
+// Smallest step the amount inputs accept, e.g. "0.000001"
+export const getAmountStep = (asset: AuctionAsset): string => {
+  const places = getDisplayDecimals(asset);
+  return places === 0 ? '1' : `0.${'1'.padStart(places, '0')}`;
+};
+
+// Round an amount up to the precision of the bid form
+const roundUpToStep = (amount: bigint, asset: AuctionAsset): bigint => {
+  const stepUnits = BigInt('1'.padEnd(asset.decimals - getDisplayDecimals(asset) + 1, '0'));
+  return ((amount + stepUnits - BigInt(1)) / stepUnits) * stepUnits;
+};
+
+// Describe an increment policy for display
+const describeIncrementPolicy = (policy: IncrementPolicy, asset: AuctionAsset): string => {
+  switch (policy.type) {
+    case 'absolute':
+      return `Minimum increment: ${formatPrice(BigInt(policy.amount), asset)}`;
+    case 'percentage':
+      return `Minimum increment: ${policy.basisPoints / 100}% of the current bid`;
+    case 'tiered':
+      return `Minimum increment: ${policy.tiers
+        .map(tier => `${formatPrice(BigInt(tier.increment), asset)} from ${formatPrice(BigInt(tier.from), asset)}`)
+        .join(', ')}`;
+  }
+};
+
+// Describe what the winner pays, which is below their bid in second-price auctions
+const describeSalePrice = (winningBid: string | null | undefined, finalPrice: string, asset: AuctionAsset): string => {
+  const price = formatPrice(BigInt(finalPrice), asset);
+  if (winningBid && winningBid !== finalPrice) {
+    return `with bid of ${formatPrice(BigInt(winningBid), asset)}, paying ${price}`;
+  }
+  return `with bid of ${price}`;
+};
+
+// Describe the winners of a uniform-price auction beyond the best bidder
+const describeOtherWinners = (winners: Array<{ bidder: string; quantity: number }> | undefined): string =>
+  winners && winners.length > 1 ? ` and ${winners.length - 1} more winners` : '';
+
+// Format the remaining time as "1d 02:03:04"
+export const formatTimeLeft = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const time = [
+    Math.floor((totalSeconds % 86400) / 3600),
+    Math.floor((totalSeconds % 3600) / 60),
+    totalSeconds % 60
+  ].map(part => part.toString().padStart(2, '0')).join(':');
+  return days > 0 ? `${days}d ${time}` : time;
 };
 
 export default function Auction({ 
@@ -65,19 +166,57 @@ export default function Auction({
   const [currentBid, setCurrentBid] = useState<string>('');
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [commitConfirmations, setCommitConfirmations] = useState(0);
+  // This bidder's private maximum, as confirmed by the server
+  const [maxBid, setMaxBid] = useState<bigint | null>(null);
+  // Asset of the auction, for formatting amounts in live updates
+  const assetRef = useRef<AuctionAsset>(DEFAULT_ASSET);
   const [auctionState, setAuctionState] = useState<AuctionState>({
     title: "Loading...",
     description: "Loading auction details...",
     startingPrice: BigInt(0),
     endTime: new Date(),
+    softClose: null,
+    hasReserve: false,
+    reserveMet: true,
+    incrementPolicy: null,
+    minNextBid: BigInt(0),
     seller: "",
+    format: 'english',
+    asset: DEFAULT_ASSET,
     status: 'active',
+    outcome: null,
+    cancellationPenalty: null,
+    sealedBid: null,
+    revealEndTime: null,
+    commitmentsTotal: 0,
+    revealsTotal: 0,
+    dutchSchedule: null,
+    currentPrice: null,
+    units: 1,
+    standingBids: [],
     currentBid: BigInt(0),
     currentBidder: null,
-    bids: []
+    bids: [],
+    bidsTotal: 0
   });
   
-  const { isConnected, lastMessage, getAuctionState, placeBid: wsPlaceBid, settleAuction: wsSettleAuction } = useWebSocket();
+  const {
+    isConnected,
+    lastMessage,
+    getAuctionState,
+    placeBid: wsPlaceBid,
+    placeMaxBid: wsPlaceMaxBid,
+    placeUnitBid: wsPlaceUnitBid,
+    commitBid: wsCommitBid,
+    revealBid: wsRevealBid,
+    acceptPrice: wsAcceptPrice,
+    settleAuction: wsSettleAuction,
+    cancelAuction: wsCancelAuction,
+    subscribeToAuction,
+    unsubscribeFromAuction
+  } = useWebSocket();
 
   // Handle WebSocket messages
   useEffect(() => {
@@ -86,6 +225,20 @@ export default function Auction({
     try {
       switch (lastMessage.type) {
         case 'auction:state':
+          if (lastMessage.auctionId && lastMessage.auctionId !== auctionId) break;
+
+          // Pages after the first extend the ledger with older bids
+          if (lastMessage.bidsOffset) {
+            const olderBids = (lastMessage.bids || []).map(toBid);
+            setAuctionState(prev => ({
+              ...prev,
+              bids: [...prev.bids, ...olderBids],
+              bidsTotal: lastMessage.bidsTotal ?? prev.bidsTotal
+            }));
+            break;
+          }
+
+          assetRef.current = lastMessage.asset || DEFAULT_ASSET;
           setAuctionState({
             title: lastMessage.title || "Untitled Auction",
             description: lastMessage.description || "No description available",
@@ -93,31 +246,172 @@ export default function Auction({
             currentBid: BigInt(lastMessage.currentBid || '0'),
             currentBidder: lastMessage.currentBidder || null,
             endTime: new Date(lastMessage.endTime || Date.now()),
+            softClose: lastMessage.softClose || null,
+            hasReserve: !!lastMessage.hasReserve,
+            reserveMet: lastMessage.reserveMet ?? true,
+            incrementPolicy: lastMessage.incrementPolicy || null,
+            minNextBid: BigInt(lastMessage.minNextBid || '0'),
             seller: lastMessage.seller || "",
-            status: (lastMessage.status as 'active' | 'ended' | 'finalizing') || 'active',
-            bids: (lastMessage.bids || []).map(bid => ({
-              bidder: bid.bidder,
-              amount: BigInt(bid.amount),
-              timestamp: new Date(bid.timestamp).getTime()
-            }))
+            format: lastMessage.format || 'english',
+            asset: assetRef.current,
+            status: lastMessage.status || 'active',
+            outcome: lastMessage.outcome || null,
+            cancellationPenalty: lastMessage.cancellationPenalty ? BigInt(lastMessage.cancellationPenalty) : null,
+            sealedBid: lastMessage.sealedBid || null,
+            revealEndTime: lastMessage.revealEndTime ? new Date(lastMessage.revealEndTime) : null,
+            commitmentsTotal: lastMessage.commitmentsTotal ?? 0,
+            revealsTotal: lastMessage.revealsTotal ?? 0,
+            dutchSchedule: lastMessage.dutchSchedule || null,
+            currentPrice: lastMessage.currentPrice ? BigInt(lastMessage.currentPrice) : null,
+            units: lastMessage.units ?? 1,
+            standingBids: lastMessage.standingBids || [],
+            bids: (lastMessage.bids || []).map(toBid),
+            bidsTotal: lastMessage.bidsTotal ?? 0
           });
           setIsLoading(false);
           break;
 
-        case 'auction:bid':
-          if (lastMessage.payload?.bidder && lastMessage.payload?.bidAmount) {
-            const bid = {
-              bidder: lastMessage.payload.bidder,
-              amount: BigInt(lastMessage.payload.bidAmount)
-            };
-            toast.success(`New bid placed: $${formatUSDC(bid.amount)} USDC`);
+        case 'auction:bidPlaced':
+          if (lastMessage.auctionId === auctionId && lastMessage.bid) {
+            const bid = toBid(lastMessage.bid);
+            const endTime = lastMessage.endTime ? new Date(lastMessage.endTime) : null;
+            setAuctionState(prev => ({
+              ...prev,
+              // Re-sync the countdown in case the bid extended the auction
+              endTime: endTime ?? prev.endTime,
+              reserveMet: lastMessage.reserveMet ?? prev.reserveMet,
+              minNextBid: lastMessage.minNextBid ? BigInt(lastMessage.minNextBid) : prev.minNextBid,
+              currentBid: bid.amount,
+              currentBidder: bid.bidder,
+              bids: [bid, ...prev.bids],
+              bidsTotal: lastMessage.bidsTotal ?? prev.bidsTotal + 1
+            }));
+            toast.success(`New bid placed: ${formatPrice(bid.amount, assetRef.current)}`);
+            if (lastMessage.extended && endTime) {
+              toast.info(`Late bid! Auction extended to ${endTime.toLocaleTimeString()}`);
+            }
+          }
+          break;
+
+        case 'auction:maxBidSet':
+          if (lastMessage.auctionId !== auctionId || !lastMessage.maxAmount) break;
+          setMaxBid(BigInt(lastMessage.maxAmount));
+          toast.success(`Maximum bid set: bidding for you automatically up to ${formatPrice(BigInt(lastMessage.maxAmount), assetRef.current)}`);
+          break;
+
+        case 'auction:unitBidPlaced':
+          if (lastMessage.auctionId === auctionId && lastMessage.bid) {
+            const bid = toBid(lastMessage.bid);
+            const endTime = lastMessage.endTime ? new Date(lastMessage.endTime) : null;
+            setAuctionState(prev => ({
+              ...prev,
+              endTime: endTime ?? prev.endTime,
+              reserveMet: lastMessage.reserveMet ?? prev.reserveMet,
+              // The clearing price and best bidder if the auction closed now
+              currentBid: lastMessage.currentBid ? BigInt(lastMessage.currentBid) : prev.currentBid,
+              currentBidder: lastMessage.currentBidder ?? null,
+              standingBids: lastMessage.standingBids ?? prev.standingBids,
+              bids: [bid, ...prev.bids],
+              bidsTotal: lastMessage.bidsTotal ?? prev.bidsTotal + 1
+            }));
+            toast.success(`New bid: ${bid.quantity} units at ${formatPrice(bid.amount, assetRef.current)}`);
+            if (lastMessage.extended && endTime) {
+              toast.info(`Late bid! Auction extended to ${endTime.toLocaleTimeString()}`);
+            }
+          }
+          break;
+
+        case 'auction:bidCommitted':
+          if (lastMessage.auctionId !== auctionId) break;
+          setAuctionState(prev => ({
+            ...prev,
+            commitmentsTotal: lastMessage.commitmentsTotal ?? prev.commitmentsTotal + 1
+          }));
+          if (lastMessage.bidder === wallet.account?.address) {
+            setCommitConfirmations(count => count + 1);
+          } else {
+            toast.info('A new sealed bid was placed');
+          }
+          break;
+
+        case 'auction:revealing':
+          if (lastMessage.auctionId !== auctionId) break;
+          setAuctionState(prev => ({
+            ...prev,
+            status: 'revealing',
+            revealEndTime: lastMessage.revealEndTime ? new Date(lastMessage.revealEndTime) : prev.revealEndTime
+          }));
+          toast.info('Bidding has closed. Reveal your sealed bid now');
+          break;
+
+        case 'auction:bidRevealed':
+          if (lastMessage.auctionId === auctionId && lastMessage.bid) {
+            const bid = toBid(lastMessage.bid);
+            setAuctionState(prev => ({
+              ...prev,
+              reserveMet: lastMessage.reserveMet ?? prev.reserveMet,
+              currentBid: lastMessage.currentBid ? BigInt(lastMessage.currentBid) : prev.currentBid,
+              currentBidder: lastMessage.currentBidder ?? prev.currentBidder,
+              bids: [bid, ...prev.bids],
+              bidsTotal: lastMessage.bidsTotal ?? prev.bidsTotal + 1,
+              revealsTotal: lastMessage.revealsTotal ?? prev.revealsTotal + 1
+            }));
+            toast.success(`Sealed bid revealed: ${formatPrice(bid.amount, assetRef.current)}`);
+          }
+          break;
+
+        case 'auction:priceTick':
+          if (lastMessage.auctionId !== auctionId || !lastMessage.currentPrice) break;
+          setAuctionState(prev => ({ ...prev, currentPrice: BigInt(lastMessage.currentPrice!) }));
+          break;
+
+        case 'auction:ended':
+          if (lastMessage.auctionId === auctionId) {
+            setAuctionState(prev => ({ ...prev, status: 'ended' }));
+            if (lastMessage.winner && lastMessage.finalPrice) {
+              toast.success(`Auction ended! Winner: ${lastMessage.winner} ${describeSalePrice(lastMessage.winningBid, lastMessage.finalPrice, assetRef.current)}${describeOtherWinners(lastMessage.winners)}`);
+            } else {
+              toast.info('Auction ended without a sale');
+            }
           }
           break;
 
         case 'auction:settled':
+          if (lastMessage.auctionId !== auctionId) break;
+          // Later settled messages report the sale's on-chain finalization
+          if (lastMessage.finalization) {
+            const { status, transactions, error } = lastMessage.finalization;
+            const hashes = transactions.map((transaction) => `${transaction.hash.slice(0, 10)}...`).join(', ');
+            if (status === 'submitted') {
+              toast.info(`Sale submitted on-chain: ${hashes}`);
+            } else if (status === 'confirmed') {
+              toast.success(`Sale finalized on-chain: ${hashes}`);
+            } else if (status === 'failed') {
+              toast.error(`On-chain finalization failed: ${error ?? 'unknown error'}`);
+            }
+            break;
+          }
+          setAuctionState(prev => ({
+            ...prev,
+            status: 'ended',
+            currentPrice: null,
+            currentBid: lastMessage.winningBid ? BigInt(lastMessage.winningBid) : prev.currentBid,
+            currentBidder: lastMessage.winner ?? prev.currentBidder
+          }));
           if (lastMessage.winner && lastMessage.finalPrice) {
-            setAuctionState(prev => ({ ...prev, status: 'ended' }));
-            toast.success(`Auction ended! Winner: ${lastMessage.winner} with bid of $${formatUSDC(BigInt(lastMessage.finalPrice))} USDC`);
+            toast.success(`Auction ended! Winner: ${lastMessage.winner} ${describeSalePrice(lastMessage.winningBid, lastMessage.finalPrice, assetRef.current)}${describeOtherWinners(lastMessage.winners)}`);
+          } else {
+            toast.info('Auction settled without a sale: the reserve price was not met');
+          }
+          break;
+
+        case 'auction:cancelled':
+          if (lastMessage.auctionId !== auctionId) break;
+          setAuctionState(prev => ({ ...prev, status: 'ended', outcome: 'cancelled', currentPrice: null }));
+          if (lastMessage.penalty && BigInt(lastMessage.penalty) > BigInt(0)) {
+            toast.info(`The seller cancelled the auction and paid bidders ${formatPrice(BigInt(lastMessage.penalty), assetRef.current)}`);
+          } else {
+            toast.info('The seller cancelled the auction');
           }
           break;
 
@@ -131,23 +425,26 @@ export default function Auction({
       console.error('Error processing WebSocket message:', err);
       setError('Error processing auction update');
     }
-  }, [lastMessage]);
+  }, [lastMessage, auctionId, wallet.account?.address]);
 
-  // Request initial auction state
+  // Tick the countdown once per second
   useEffect(() => {
-    const fetchAuctionState = async () => {
-      try {
-        getAuctionState(auctionId);
-      } catch (err) {
-        setError('Failed to get auction state');
-        console.error('Error getting auction state:', err);
-      }
-    };
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Follow the auction; the server answers with its current state
+  useEffect(() => {
+    if (!isConnected) return;
 
-    if (isConnected) {
-      fetchAuctionState();
+    if (!subscribeToAuction(auctionId)) {
+      setError('Failed to get auction state');
     }
-  }, [auctionId, isConnected, getAuctionState]);
+
+    return () => {
+      unsubscribeFromAuction(auctionId);
+    };
+  }, [auctionId, isConnected, subscribeToAuction, unsubscribeFromAuction]);
 
   const handleBidSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -158,14 +455,14 @@ export default function Auction({
     }
 
     try {
-      const bidAmount = parseUSDC(currentBid);
+      const bidAmount = parseAmount(currentBid, auctionState.asset);
       if (!bidAmount) {
         toast.error('Please enter a valid bid amount');
         return;
       }
 
-      if (bidAmount <= auctionState.currentBid) {
-        throw new Error('Bid must be higher than current bid');
+      if (bidAmount < auctionState.minNextBid) {
+        throw new Error(`Bid must be at least ${formatPrice(roundUpToStep(auctionState.minNextBid, auctionState.asset), auctionState.asset)}`);
       }
 
       wsPlaceBid({
@@ -180,6 +477,103 @@ export default function Auction({
     }
   };
 
+  const handleMaxBid = async () => {
+    if (!isAuthenticated) {
+      toast.error('Please connect to ClearNode first');
+      return;
+    }
+
+    try {
+      const maxAmount = parseAmount(currentBid, auctionState.asset);
+      if (!maxAmount) {
+        toast.error('Please enter a valid maximum bid');
+        return;
+      }
+
+      if (maxBid !== null && maxAmount <= maxBid) {
+        throw new Error(`Maximum bid must be above your current maximum of ${formatPrice(maxBid, auctionState.asset)}`);
+      }
+
+      if (auctionState.currentBidder !== wallet.account?.address && maxAmount < auctionState.minNextBid) {
+        throw new Error(`Maximum bid must be at least ${formatPrice(roundUpToStep(auctionState.minNextBid, auctionState.asset), auctionState.asset)}`);
+      }
+
+      await wsPlaceMaxBid({
+        auctionId,
+        bidder: wallet.account?.address as string,
+        maxAmount: maxAmount.toString()
+      });
+
+      setCurrentBid('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to set maximum bid');
+    }
+  };
+
+  const handleUnitBid = async (price: string, quantity: number) => {
+    if (!isAuthenticated) {
+      throw new Error('Please connect to ClearNode first');
+    }
+
+    await wsPlaceUnitBid({
+      auctionId,
+      bidder: wallet.account?.address as string,
+      price,
+      quantity
+    });
+  };
+
+  const handleCommitBid = async (commitment: string) => {
+    if (!isAuthenticated) {
+      throw new Error('Please connect to ClearNode first');
+    }
+
+    await wsCommitBid({
+      auctionId,
+      bidder: wallet.account?.address as string,
+      commitment
+    });
+  };
+
+  const handleRevealBid = async (amount: string, salt: string) => {
+    if (!isAuthenticated) {
+      throw new Error('Please connect to ClearNode first');
+    }
+
+    await wsRevealBid({
+      auctionId,
+      bidder: wallet.account?.address as string,
+      amount,
+      salt
+    });
+  };
+
+  const handleAcceptPrice = async () => {
+    if (!isAuthenticated) {
+      toast.error('Please connect to ClearNode first');
+      return;
+    }
+
+    try {
+      if (auctionState.currentPrice === null) {
+        throw new Error('Auction is no longer for sale');
+      }
+
+      // The server charges its own current price, which can only have dropped since this one
+      await wsAcceptPrice({
+        auctionId,
+        buyer: wallet.account?.address as string,
+        price: auctionState.currentPrice.toString()
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to accept price');
+    }
+  };
+
+  const handleLoadOlderBids = () => {
+    getAuctionState(auctionId, { offset: auctionState.bids.length });
+  };
+
   const handleSettleAuction = async () => {
     if (!isAuthenticated) {
       toast.error('Please connect to ClearNode first');
@@ -200,6 +594,26 @@ export default function Auction({
     }
   };
 
+  const handleCancelAuction = async () => {
+    if (!isAuthenticated) {
+      toast.error('Please connect to ClearNode first');
+      return;
+    }
+
+    try {
+      if (wallet.account?.address !== auctionState.seller) {
+        throw new Error('Only the seller can cancel the auction');
+      }
+
+      await wsCancelAuction({
+        auctionId,
+        seller: wallet.account.address
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel auction');
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="bg-gray-800 rounded-lg shadow-lg p-6 max-w-2xl mx-auto border border-gray-700">
@@ -217,6 +631,19 @@ export default function Auction({
   }
 
   const isSeller = wallet.account?.address === auctionState.seller;
+  const asset = auctionState.asset;
+  const suggestedBid = formatAmount(roundUpToStep(auctionState.minNextBid, asset), asset);
+  const timeLeft = auctionState.endTime.getTime() - now;
+  const isBiddingOpen = auctionState.status === 'active' && timeLeft > 0;
+  const isSealed = auctionState.format === 'sealed' || auctionState.format === 'vickrey';
+  const isDutch = auctionState.format === 'dutch';
+  const isUniform = auctionState.format === 'uniform';
+  const revealTimeLeft = auctionState.revealEndTime ? auctionState.revealEndTime.getTime() - now : 0;
+  const isRevealOpen = auctionState.status === 'revealing' && revealTimeLeft > 0;
+  const bidderAddress = wallet.account?.address as string;
+  // Once anyone has bid, only a seller who escrowed a penalty can cancel
+  const hasBids = auctionState.bidsTotal > 0 || auctionState.commitmentsTotal > 0 || auctionState.standingBids.length > 0;
+  const canCancel = auctionState.status === 'active' && (!hasBids || auctionState.cancellationPenalty !== null);
 
   return (
     <div className="bg-gray-800 rounded-lg shadow-lg p-6 max-w-2xl mx-auto border border-gray-700">
@@ -231,37 +658,162 @@ export default function Auction({
         <p className="text-gray-300 mb-4">{auctionState.description}</p>
         <div className="flex justify-between items-center">
           <p className="text-lg text-gray-200">
-            Starting Price: ${formatUSDC(auctionState.startingPrice)} USDC
+            Starting Price: {formatPrice(auctionState.startingPrice, asset)}
           </p>
           <p className="text-lg text-gray-200">
             Ends: {auctionState.endTime.toLocaleString()}
           </p>
         </div>
+        <div className="mt-4 text-center">
+          {isBiddingOpen ? (
+            <>
+              <p className="text-xl font-mono text-yellow-400">Ends in {formatTimeLeft(timeLeft)}</p>
+              {isSealed && (
+                <p className="text-sm text-gray-400 mt-1">
+                  {auctionState.format === 'vickrey' ? 'Second-price sealed-bid auction' : 'Sealed-bid auction'}: {auctionState.commitmentsTotal} sealed bids so far, revealed after bidding closes
+                </p>
+              )}
+              {isUniform && (
+                <p className="text-sm text-gray-400 mt-1">
+                  {auctionState.units} identical units: the best bids win and all pay the lowest winning price
+                </p>
+              )}
+              {isDutch && auctionState.dutchSchedule && (
+                <p className="text-sm text-gray-400 mt-1">
+                  Dutch auction: the price falls to {formatPrice(BigInt(auctionState.dutchSchedule.floorPrice), asset)} until someone buys
+                </p>
+              )}
+              {auctionState.softClose && (
+                <p className="text-sm text-gray-400 mt-1">
+                  Bids in the last {auctionState.softClose.window}s extend the auction by {auctionState.softClose.extension}s
+                </p>
+              )}
+            </>
+          ) : isRevealOpen ? (
+            <>
+              <p className="text-xl font-mono text-purple-400">Reveals close in {formatTimeLeft(revealTimeLeft)}</p>
+              <p className="text-sm text-gray-400 mt-1">
+                {auctionState.revealsTotal} of {auctionState.commitmentsTotal} sealed bids revealed
+              </p>
+            </>
+          ) : (
+            <p className="text-xl text-gray-400">
+              {auctionState.outcome === 'cancelled'
+                ? 'Auction cancelled by the seller'
+                : auctionState.status === 'ended' ? 'Auction ended' : 'Bidding closed, finalizing...'}
+            </p>
+          )}
+        </div>
       </div>
 
-      {/* Current Highest Bid */}
-      <div className="mb-8 p-4 bg-gray-700 rounded-lg border border-gray-600">
-        <h3 className="text-xl font-semibold mb-2 text-white">Current Highest Bid</h3>
-        <p className="text-2xl text-blue-400">
-          ${formatUSDC(auctionState.currentBid)} USDC
-        </p>
-        {auctionState.currentBidder && (
-          <p className="text-sm text-gray-400 mt-1">
-            by {auctionState.currentBidder.slice(0, 6)}...{auctionState.currentBidder.slice(-4)}
+      {/* Falling Price - Buy at the current price while the auction is open */}
+      {isDutch && isBiddingOpen && auctionState.currentPrice !== null && (
+        <div className="mb-8 p-4 bg-gray-700 rounded-lg border border-gray-600">
+          <h3 className="text-xl font-semibold mb-2 text-white">Current Price</h3>
+          <p className="text-2xl font-mono text-yellow-400">
+            {formatPrice(auctionState.currentPrice, asset)}
           </p>
-        )}
-      </div>
+          {isAuthenticated && !isSeller && (
+            <button
+              onClick={handleAcceptPrice}
+              disabled={!isConnected || !isAuthenticated}
+              className="w-full mt-4 bg-blue-600 text-white px-6 py-2 rounded hover:bg-blue-700 transition-colors duration-200 disabled:bg-gray-600"
+            >
+              Buy Now
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Current Highest Bid - Dutch auctions only have one once sold */}
+      {(!isDutch || auctionState.currentBidder) && (
+        <div className="mb-8 p-4 bg-gray-700 rounded-lg border border-gray-600">
+          <h3 className="text-xl font-semibold mb-2 text-white">
+            {isSealed ? 'Highest Revealed Bid' : isDutch ? 'Sold For' : isUniform ? 'Clearing Price' : 'Current Highest Bid'}
+          </h3>
+          {isSealed && !auctionState.currentBidder ? (
+            <p className="text-2xl text-gray-400">
+              {auctionState.status === 'active' ? 'Sealed until bidding closes' : 'No bids revealed yet'}
+            </p>
+          ) : (
+            <p className="text-2xl text-blue-400">
+              {formatPrice(auctionState.currentBid, asset)}
+            </p>
+          )}
+          {auctionState.currentBidder && (
+            <p className="text-sm text-gray-400 mt-1">
+              by {auctionState.currentBidder.slice(0, 6)}...{auctionState.currentBidder.slice(-4)}
+            </p>
+          )}
+          {auctionState.hasReserve && (
+            <p className={`text-sm mt-2 ${auctionState.reserveMet ? 'text-green-400' : 'text-yellow-400'}`}>
+              {auctionState.reserveMet ? 'Reserve met' : 'Reserve not met'}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Sealed Bid Form - Commit while bidding is open, reveal afterwards */}
+      {isSealed && isAuthenticated && !isSeller && (
+        <SealedBidForm
+          auctionId={auctionId}
+          bidder={bidderAddress}
+          startingPrice={auctionState.startingPrice}
+          asset={asset}
+          penalty={BigInt(auctionState.sealedBid?.penalty || '0')}
+          isCommitOpen={isBiddingOpen}
+          isRevealOpen={isRevealOpen}
+          revealTimeLeft={revealTimeLeft}
+          commitConfirmations={commitConfirmations}
+          hasRevealed={auctionState.bids.some(bid => bid.bidder === bidderAddress)}
+          onCommit={handleCommitBid}
+          onReveal={handleRevealBid}
+        />
+      )}
+
+      {/* Standing Bids - Each uniform-price bidder's current bid and the units it would win */}
+      {isUniform && auctionState.standingBids.length > 0 && (
+        <div className="mb-8 space-y-2">
+          {auctionState.standingBids.map(bid => (
+            <div
+              key={bid.bidder}
+              className={`flex justify-between items-center p-3 rounded border ${bid.filled > 0 ? 'bg-gray-700 border-green-600' : 'bg-gray-800 border-gray-600'}`}
+            >
+              <p className="text-gray-200">
+                {bid.bidder.slice(0, 6)}...{bid.bidder.slice(-4)}
+              </p>
+              <p className="text-gray-300">
+                {bid.quantity} at {formatPrice(BigInt(bid.price), asset)}
+                <span className="text-sm text-gray-400 ml-2">({bid.filled} winning)</span>
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Unit Bid Form - Price and quantity for uniform-price auctions */}
+      {isUniform && isBiddingOpen && isAuthenticated && !isSeller && (
+        <UnitBidForm
+          bidder={bidderAddress}
+          units={auctionState.units}
+          startingPrice={auctionState.startingPrice}
+          asset={asset}
+          standingBids={auctionState.standingBids}
+          onBid={handleUnitBid}
+        />
+      )}
 
       {/* Bid Form - Only show if auction is active, user is authenticated, and not the seller */}
-      {auctionState.status === 'active' && isAuthenticated && !isSeller && (
+      {!isSealed && !isDutch && !isUniform && isBiddingOpen && isAuthenticated && !isSeller && (
         <form onSubmit={handleBidSubmit} className="mb-8">
           <div className="flex gap-4">
             <input
               type="number"
-              step="0.01"
+              step={getAmountStep(asset)}
+              min={suggestedBid}
               value={currentBid}
               onChange={(e) => setCurrentBid(e.target.value)}
-              placeholder="Enter bid amount in USDC"
+              placeholder={`Minimum bid ${suggestedBid} ${asset.symbol.toUpperCase()}`}
               className="flex-1 p-2 border rounded bg-gray-700 text-white placeholder-gray-400 border-gray-600 focus:outline-none focus:border-blue-500"
               required
             />
@@ -272,12 +824,37 @@ export default function Auction({
             >
               Place Bid
             </button>
+            <button
+              type="button"
+              onClick={handleMaxBid}
+              disabled={!isConnected || !isAuthenticated}
+              className="bg-purple-600 text-white px-6 py-2 rounded hover:bg-purple-700 transition-colors duration-200 disabled:bg-gray-600"
+            >
+              Set Max Bid
+            </button>
+          </div>
+          {maxBid !== null && (
+            <p className="mt-2 text-sm text-purple-300">
+              Bidding for you automatically up to {formatPrice(maxBid, asset)} (only you can see this)
+            </p>
+          )}
+          <div className="flex justify-between items-center mt-2 text-sm text-gray-400">
+            <span>
+              {auctionState.incrementPolicy ? describeIncrementPolicy(auctionState.incrementPolicy, asset) : 'Any higher bid is accepted'}
+            </span>
+            <button
+              type="button"
+              onClick={() => setCurrentBid(suggestedBid)}
+              className="text-blue-400 hover:text-blue-300"
+            >
+              Bid {suggestedBid} {asset.symbol.toUpperCase()}
+            </button>
           </div>
         </form>
       )}
 
       {/* Settle Button - Only show if auction is active, user is authenticated, and is the seller */}
-      {auctionState.status === 'active' && isAuthenticated && isSeller && (
+      {!isSealed && !isDutch && auctionState.status === 'active' && isAuthenticated && isSeller && (
         <button
           onClick={handleSettleAuction}
           disabled={!isConnected || !isAuthenticated}
@@ -287,9 +864,24 @@ export default function Auction({
         </button>
       )}
 
+      {/* Cancel Button - Only show to the seller while the auction can still be withdrawn */}
+      {canCancel && isAuthenticated && isSeller && (
+        <button
+          onClick={handleCancelAuction}
+          disabled={!isConnected || !isAuthenticated}
+          className="w-full mb-8 bg-red-600 text-white px-6 py-2 rounded hover:bg-red-700 transition-colors duration-200 disabled:bg-gray-600"
+        >
+          {hasBids && auctionState.cancellationPenalty !== null
+            ? `Cancel Auction (pays bidders ${formatPrice(auctionState.cancellationPenalty, asset)})`
+            : 'Cancel Auction'}
+        </button>
+      )}
+
       {/* Bid History */}
       <div>
-        <h3 className="text-xl font-semibold mb-4 text-white">Bid History</h3>
+        <h3 className="text-xl font-semibold mb-4 text-white">
+          Bid History <span className="text-sm font-normal text-gray-400">({auctionState.bidsTotal} bids)</span>
+        </h3>
         <div className="space-y-4">
           {auctionState.bids.map((bid, index) => (
             <div
@@ -301,15 +893,26 @@ export default function Auction({
                   {bid.bidder.slice(0, 6)}...{bid.bidder.slice(-4)}
                 </p>
                 <p className="text-sm text-gray-400">
-                  {new Date(bid.timestamp).toLocaleString()}
+                  {new Date(bid.timestamp).toLocaleString()}{bid.proxy && ' · automatic'}
                 </p>
               </div>
               <p className="text-lg font-semibold text-blue-400">
-                ${formatUSDC(bid.amount)} USDC
+                {bid.quantity ? `${bid.quantity} × ` : ''}{formatPrice(bid.amount, asset)}
               </p>
             </div>
           ))}
+          {auctionState.bids.length === 0 && (
+            <p className="text-gray-400">No bids yet</p>
+          )}
         </div>
+        {auctionState.bids.length < auctionState.bidsTotal && (
+          <button
+            onClick={handleLoadOlderBids}
+            className="w-full mt-4 bg-gray-700 text-gray-200 px-6 py-2 rounded hover:bg-gray-600 transition-colors duration-200 border border-gray-600"
+          >
+            Load older bids
+          </button>
+        )}
       </div>
     </div>
   );
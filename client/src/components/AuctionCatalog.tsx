@@ -0,0 +1,174 @@
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ethers } from 'ethers';
+import { useWebSocket, type AuctionListFilters, type AuctionStatus, type AuctionSummary } from '../hooks/useWebSocket';
+import { formatPrice, formatTimeLeft } from './Auction';
+
+const PAGE_SIZE = 12;
+
+// Window used by the "ending soon" filter, in seconds
+const ENDING_SOON_WINDOW = 3600;
+
+const STATUS_STYLES: Record<AuctionStatus, string> = {
+  active: 'bg-green-500/20 text-green-400',
+  revealing: 'bg-purple-500/20 text-purple-400',
+  finalizing: 'bg-yellow-500/20 text-yellow-400',
+  ended: 'bg-gray-700 text-gray-300'
+};
+
+export default function AuctionCatalog() {
+  const { isConnected, lastMessage, listAuctions } = useWebSocket();
+  const [auctions, setAuctions] = useState<AuctionSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [status, setStatus] = useState<AuctionStatus | ''>('active');
+  const [seller, setSeller] = useState('');
+  const [endingSoon, setEndingSoon] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick once a second so the countdowns stay current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Request the current page whenever the filters change
+  useEffect(() => {
+    if (!isConnected) return;
+
+    const filters: AuctionListFilters = {};
+    if (status) filters.status = status;
+    // Wait until the seller filter is a complete address
+    if (ethers.isAddress(seller.trim())) filters.seller = seller.trim();
+    if (endingSoon) filters.endingWithin = ENDING_SOON_WINDOW;
+
+    listAuctions(filters, { offset, limit: PAGE_SIZE });
+  }, [isConnected, listAuctions, status, seller, endingSoon, offset]);
+
+  // Handle list responses
+  useEffect(() => {
+    if (lastMessage?.type !== 'auction:list') return;
+
+    setAuctions(lastMessage.auctions || []);
+    setTotal(lastMessage.total || 0);
+  }, [lastMessage]);
+
+  // Any filter change starts again from the first page
+  const updateFilter = (update: () => void) => {
+    update();
+    setOffset(0);
+  };
+
+  const page = Math.floor(offset / PAGE_SIZE) + 1;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="p-6 rounded-xl border border-gray-700/50 bg-gray-900/40 backdrop-blur-xl shadow-2xl">
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Status</label>
+          <select
+            value={status}
+            onChange={(e) => updateFilter(() => setStatus(e.target.value as AuctionStatus | ''))}
+            className="px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+          >
+            <option value="">All</option>
+            <option value="active">Active</option>
+            <option value="revealing">Revealing</option>
+            <option value="finalizing">Finalizing</option>
+            <option value="ended">Ended</option>
+          </select>
+        </div>
+        <div className="flex-1 min-w-[12rem]">
+          <label className="block text-sm font-medium text-gray-300 mb-2">Seller</label>
+          <input
+            type="text"
+            value={seller}
+            onChange={(e) => updateFilter(() => setSeller(e.target.value))}
+            placeholder="0x..."
+            className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-500 font-mono focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+        </div>
+        <label className="flex items-center space-x-2 text-gray-300 pb-2">
+          <input
+            type="checkbox"
+            checked={endingSoon}
+            onChange={(e) => updateFilter(() => setEndingSoon(e.target.checked))}
+            className="accent-purple-500"
+          />
+          <span>Ending within the hour</span>
+        </label>
+      </div>
+
+      {!isConnected ? (
+        <p className="text-gray-400">Connecting to auction server...</p>
+      ) : auctions.length === 0 ? (
+        <p className="text-gray-400">No auctions match these filters</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {auctions.map((auction) => {
+            const timeLeft = new Date(auction.endTime).getTime() - now;
+
+            return (
+              <Link
+                key={auction.auctionId}
+                href={`/auctions/${encodeURIComponent(auction.auctionId)}`}
+                className="block p-4 rounded-lg bg-gray-800/50 border border-gray-700/50 hover:border-purple-500/50 transition-colors"
+              >
+                <div className="flex items-start justify-between mb-2">
+                  <h3 className="text-lg font-semibold text-white">{auction.title}</h3>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[auction.status]}`}>
+                    {auction.status}
+                  </span>
+                </div>
+                <p className="text-gray-400 text-sm mb-4 line-clamp-2">{auction.description}</p>
+                <div className="flex items-end justify-between">
+                  <div>
+                    {auction.currentPrice ? (
+                      <>
+                        <p className="text-xs text-gray-400">Current price</p>
+                        <p className="text-xl font-mono text-green-400">{formatPrice(BigInt(auction.currentPrice), auction.asset)}</p>
+                      </>
+                    ) : (
+                      <>
+                        <p className="text-xs text-gray-400">
+                          {auction.currentBidder ? `Current bid (${auction.bidsTotal} bids)` : 'Starting price'}
+                        </p>
+                        <p className="text-xl font-mono text-green-400">
+                          {formatPrice(BigInt(auction.currentBidder ? auction.currentBid : auction.startingPrice), auction.asset)}
+                        </p>
+                      </>
+                    )}
+                  </div>
+                  {auction.status === 'active' && (
+                    <p className="text-sm font-mono text-yellow-400">{formatTimeLeft(timeLeft)}</p>
+                  )}
+                </div>
+              </Link>
+            );
+          })}
+        </div>
+      )}
+
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-between mt-6">
+          <button
+            onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+            disabled={offset === 0}
+            className="px-4 py-2 rounded-lg bg-gray-800 text-gray-300 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Previous
+          </button>
+          <span className="text-gray-400">Page {page} of {pageCount}</span>
+          <button
+            onClick={() => setOffset(offset + PAGE_SIZE)}
+            disabled={offset + PAGE_SIZE >= total}
+            className="px-4 py-2 rounded-lg bg-gray-800 text-gray-300 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
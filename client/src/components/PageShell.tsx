@@ -0,0 +1,34 @@
+'use client';
+
+import { ReactNode } from 'react';
+import Link from 'next/link';
+
+interface PageShellProps {
+  children: ReactNode;
+}
+
+export default function PageShell({ children }: PageShellProps) {
+  return (
+    <main className="min-h-screen p-8 bg-gradient-to-br from-gray-900 via-purple-900 to-gray-900 relative overflow-hidden">
+      {/* Background decoration */}
+      <div className="absolute inset-0 w-full h-full">
+        <div className="absolute top-10 left-10 w-72 h-72 bg-purple-500 rounded-full mix-blend-multiply filter blur-xl opacity-20 animate-blob"></div>
+        <div className="absolute top-0 right-4 w-72 h-72 bg-yellow-500 rounded-full mix-blend-multiply filter blur-xl opacity-20 animate-blob animation-delay-2000"></div>
+        <div className="absolute -bottom-8 left-20 w-72 h-72 bg-pink-500 rounded-full mix-blend-multiply filter blur-xl opacity-20 animate-blob animation-delay-4000"></div>
+      </div>
+
+      <div className="max-w-4xl mx-auto relative">
+        <div className="text-center mb-12">
+          <Link href="/">
+            <h1 className="text-6xl font-extrabold mb-4 bg-gradient-to-r from-blue-400 via-purple-500 to-pink-500 text-transparent bg-clip-text animate-gradient">
+              Flash Bid
+            </h1>
+          </Link>
+          <p className="text-gray-300 text-xl">Instant, Secure, Revolutionary Auctions</p>
+        </div>
+
+        {children}
+      </div>
+    </main>
+  );
+}
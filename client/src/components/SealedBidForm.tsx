@@ -0,0 +1,158 @@
+import { useState, useEffect } from 'react';
+import { ethers } from 'ethers';
+import { toast } from 'react-toastify';
+import { type AuctionAsset } from '../hooks/useWebSocket';
+import { formatAmount, formatPrice, getAmountStep, parseAmount, formatTimeLeft } from './Auction';
+
+interface SealedBidFormProps {
+  auctionId: string;
+  bidder: string;
+  startingPrice: bigint;
+  asset: AuctionAsset;
+  penalty: bigint;
+  // Bidding is open: commitments are accepted
+  isCommitOpen: boolean;
+  // Bidding has closed and the reveal phase is running
+  isRevealOpen: boolean;
+  revealTimeLeft: number;
+  // Changes each time the server confirms one of this bidder's commitments
+  commitConfirmations: number;
+  hasRevealed: boolean;
+  onCommit: (commitment: string) => Promise<void>;
+  onReveal: (amount: string, salt: string) => Promise<void>;
+}
+
+interface SealedBid {
+  amount: string;
+  salt: string;
+}
+
+// The amount and salt never leave this browser until the reveal
+const storageKey = (auctionId: string, bidder: string) => `sealed_bid:${auctionId}:${bidder}`;
+
+// A commitment sent but not yet confirmed, kept apart so a rejected one cannot replace the accepted bid
+const pendingKey = (auctionId: string, bidder: string) => `sealed_bid_pending:${auctionId}:${bidder}`;
+
+// Must match the server's commitment: keccak256 of the packed auction ID, bidder, amount and salt
+const computeCommitment = (auctionId: string, bidder: string, amount: string, salt: string): string =>
+  ethers.solidityPackedKeccak256(['string', 'address', 'uint256', 'bytes32'], [auctionId, bidder, amount, salt]);
+
+export default function SealedBidForm({
+  auctionId,
+  bidder,
+  startingPrice,
+  asset,
+  penalty,
+  isCommitOpen,
+  isRevealOpen,
+  revealTimeLeft,
+  commitConfirmations,
+  hasRevealed,
+  onCommit,
+  onReveal
+}: SealedBidFormProps) {
+  const [amount, setAmount] = useState('');
+  const [sealedBid, setSealedBid] = useState<SealedBid | null>(null);
+
+  // Restore a bid sealed in an earlier visit
+  useEffect(() => {
+    const saved = localStorage.getItem(storageKey(auctionId, bidder));
+    setSealedBid(saved ? JSON.parse(saved) : null);
+  }, [auctionId, bidder]);
+
+  // Promote the pending commitment once the server has accepted it
+  useEffect(() => {
+    const pending = localStorage.getItem(pendingKey(auctionId, bidder));
+    if (!commitConfirmations || !pending) return;
+
+    localStorage.setItem(storageKey(auctionId, bidder), pending);
+    localStorage.removeItem(pendingKey(auctionId, bidder));
+    setSealedBid(JSON.parse(pending));
+    toast.success('Sealed bid submitted. Come back after bidding closes to reveal it');
+  }, [auctionId, bidder, commitConfirmations]);
+
+  const handleCommit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const bidAmount = parseAmount(amount, asset);
+      if (bidAmount < startingPrice) {
+        throw new Error(`Bid must be at least ${formatPrice(startingPrice, asset)}`);
+      }
+
+      const salt = ethers.hexlify(ethers.randomBytes(32));
+      const pending: SealedBid = { amount: bidAmount.toString(), salt };
+      localStorage.setItem(pendingKey(auctionId, bidder), JSON.stringify(pending));
+
+      await onCommit(computeCommitment(auctionId, bidder, pending.amount, salt));
+      setAmount('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to submit sealed bid');
+    }
+  };
+
+  const handleReveal = async () => {
+    if (!sealedBid) return;
+
+    try {
+      await onReveal(sealedBid.amount, sealedBid.salt);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to reveal bid');
+    }
+  };
+
+  if (isCommitOpen) {
+    return (
+      <form onSubmit={handleCommit} className="mb-8">
+        <div className="flex gap-4">
+          <input
+            type="number"
+            step={getAmountStep(asset)}
+            min={formatAmount(startingPrice, asset)}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder={sealedBid ? 'Replace your sealed bid' : `Minimum bid ${formatPrice(startingPrice, asset)}`}
+            className="flex-1 p-2 border rounded bg-gray-700 text-white placeholder-gray-400 border-gray-600 focus:outline-none focus:border-blue-500"
+            required
+          />
+          <button
+            type="submit"
+            className="bg-blue-600 text-white px-6 py-2 rounded hover:bg-blue-700 transition-colors duration-200"
+          >
+            Seal Bid
+          </button>
+        </div>
+        <p className="mt-2 text-sm text-gray-400">
+          {sealedBid
+            ? `Your sealed bid: ${formatPrice(BigInt(sealedBid.amount), asset)}`
+            : 'Other bidders only see that you bid, not how much.'}
+          {penalty > BigInt(0) && ` A ${formatPrice(penalty, asset)} bond is forfeited if you do not reveal.`}
+        </p>
+      </form>
+    );
+  }
+
+  if (isRevealOpen && sealedBid) {
+    return (
+      <div className="mb-8 p-4 bg-gray-700 rounded-lg border border-gray-600">
+        {hasRevealed ? (
+          <p className="text-gray-300">Your bid of {formatPrice(BigInt(sealedBid.amount), asset)} has been revealed</p>
+        ) : (
+          <>
+            <p className="text-gray-300 mb-4">
+              Reveal your sealed bid of {formatPrice(BigInt(sealedBid.amount), asset)} within {formatTimeLeft(revealTimeLeft)}
+            </p>
+            <button
+              onClick={handleReveal}
+              className="w-full bg-purple-600 text-white px-6 py-2 rounded hover:bg-purple-700 transition-colors duration-200"
+            >
+              Reveal Bid
+            </button>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { toast } from 'react-toastify';
+import { formatAmount, formatPrice, getAmountStep, parseAmount } from './Auction';
+import { type AuctionAsset, type StandingBid } from '../hooks/useWebSocket';
+
+interface UnitBidFormProps {
+  bidder: string;
+  units: number;
+  startingPrice: bigint;
+  asset: AuctionAsset;
+  standingBids: StandingBid[];
+  onBid: (price: string, quantity: number) => Promise<void>;
+}
+
+export default function UnitBidForm({
+  bidder,
+  units,
+  startingPrice,
+  asset,
+  standingBids,
+  onBid
+}: UnitBidFormProps) {
+  const [price, setPrice] = useState('');
+  const [quantity, setQuantity] = useState('1');
+
+  // A standing bid can only be raised, so it sets the form's minimums
+  const ownBid = standingBids.find(bid => bid.bidder === bidder);
+  const minPrice = ownBid ? BigInt(ownBid.price) : startingPrice;
+  const minQuantity = ownBid ? ownBid.quantity : 1;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const unitPrice = parseAmount(price, asset);
+      const unitCount = Number(quantity);
+      if (unitPrice < minPrice) {
+        throw new Error(`Price must be at least ${formatPrice(minPrice, asset)} per unit`);
+      }
+      if (!Number.isInteger(unitCount) || unitCount < minQuantity || unitCount > units) {
+        throw new Error(`Quantity must be between ${minQuantity} and ${units}`);
+      }
+
+      await onBid(unitPrice.toString(), unitCount);
+      setPrice('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to place bid');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-8">
+      <div className="flex gap-4">
+        <input
+          type="number"
+          step={getAmountStep(asset)}
+          min={formatAmount(minPrice, asset)}
+          value={price}
+          onChange={(e) => setPrice(e.target.value)}
+          placeholder={`Price per unit, from ${formatPrice(minPrice, asset)}`}
+          className="flex-1 p-2 border rounded bg-gray-700 text-white placeholder-gray-400 border-gray-600 focus:outline-none focus:border-blue-500"
+          required
+        />
+        <input
+          type="number"
+          step="1"
+          min={minQuantity}
+          max={units}
+          value={quantity}
+          onChange={(e) => setQuantity(e.target.value)}
+          className="w-24 p-2 border rounded bg-gray-700 text-white border-gray-600 focus:outline-none focus:border-blue-500"
+          required
+        />
+        <button
+          type="submit"
+          className="bg-blue-600 text-white px-6 py-2 rounded hover:bg-blue-700 transition-colors duration-200"
+        >
+          Place Bid
+        </button>
+      </div>
+      <p className="mt-2 text-sm text-gray-400">
+        {ownBid
+          ? `Your bid: ${ownBid.quantity} at ${formatPrice(BigInt(ownBid.price), asset)}, winning ${ownBid.filled} units right now`
+          : 'Every winner pays the lowest winning price per unit.'}
+      </p>
+    </form>
+  );
+}
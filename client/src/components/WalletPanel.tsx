@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { WalletClient } from 'viem';
+import { toast } from 'react-toastify';
+import { useWalletFunds } from '../hooks/useWalletFunds';
+import { DEFAULT_ASSET, formatPrice, getAmountStep, parseAmount } from './Auction';
+
+interface WalletPanelProps {
+  wallet: WalletClient;
+  chainId: number | null;
+  sendRequest: (method: string, params?: unknown[]) => Promise<unknown[]>;
+  symbol?: string;
+}
+
+// Moves a bidder's funds from their wallet into a ClearNode channel and back out after auctions
+export default function WalletPanel({ wallet, chainId, sendRequest, symbol = DEFAULT_ASSET.symbol }: WalletPanelProps) {
+  const [amount, setAmount] = useState('');
+  const {
+    asset,
+    funds,
+    pending,
+    error,
+    isSupportedChain,
+    approve,
+    deposit,
+    createChannel,
+    resizeChannel,
+    closeChannel,
+    withdraw,
+  } = useWalletFunds(wallet, chainId, sendRequest, symbol);
+
+  if (!isSupportedChain) {
+    return null;
+  }
+
+  const displayAsset = asset ?? { ...DEFAULT_ASSET, symbol };
+
+  // Run a step with the entered amount and report how it went
+  const runWithAmount = async (label: string, step: (value: bigint) => Promise<string>) => {
+    try {
+      const value = parseAmount(amount, displayAsset);
+      if (value <= BigInt(0)) {
+        throw new Error('Enter an amount');
+      }
+      await step(value);
+      toast.success(`${label} confirmed`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `${label} failed`);
+    }
+  };
+
+  const handleClose = async () => {
+    try {
+      await closeChannel();
+      toast.success('Channel closed, funds are back in custody');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to close channel');
+    }
+  };
+
+  const balances = funds
+    ? [
+        { label: 'Wallet', value: funds.wallet },
+        { label: 'Deposited', value: funds.custody },
+        { label: 'Channel', value: BigInt(funds.channel?.amount ?? '0') },
+        { label: 'Available to bid', value: funds.ledger },
+      ]
+    : [];
+
+  const buttonClass = 'bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="mb-8 p-6 rounded-xl border border-gray-700/50 bg-gray-900/40 backdrop-blur-xl shadow-2xl">
+      <h2 className="text-xl font-semibold text-white mb-4">Funds</h2>
+
+      {balances.length > 0 ? (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+          {balances.map(({ label, value }) => (
+            <div key={label} className="p-3 rounded-lg bg-gray-800">
+              <p className="text-sm text-gray-400">{label}</p>
+              <p className="text-white font-medium">{formatPrice(value, displayAsset)}</p>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-gray-400 mb-4">Loading balances...</p>
+      )}
+
+      <div className="flex flex-wrap gap-2 items-center">
+        <input
+          type="number"
+          step={getAmountStep(displayAsset)}
+          min="0"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder={`Amount in ${displayAsset.symbol.toUpperCase()}`}
+          className="flex-1 min-w-[10rem] p-2 border rounded bg-gray-700 text-white placeholder-gray-400 border-gray-600 focus:outline-none focus:border-blue-500"
+        />
+        <button
+          onClick={() => runWithAmount('Approval', approve)}
+          disabled={!!pending}
+          className={buttonClass}
+        >
+          Approve
+        </button>
+        <button
+          onClick={() => runWithAmount('Deposit', deposit)}
+          disabled={!!pending}
+          className={buttonClass}
+        >
+          Deposit
+        </button>
+        {funds?.channel ? (
+          <button
+            onClick={() => runWithAmount('Channel top-up', resizeChannel)}
+            disabled={!!pending}
+            className={buttonClass}
+          >
+            Add to channel
+          </button>
+        ) : (
+          <button
+            onClick={() => runWithAmount('Channel', createChannel)}
+            disabled={!!pending}
+            className={buttonClass}
+          >
+            Open channel
+          </button>
+        )}
+        <button
+          onClick={() => runWithAmount('Withdrawal', withdraw)}
+          disabled={!!pending}
+          className={buttonClass}
+        >
+          Withdraw
+        </button>
+        {funds?.channel && (
+          <button
+            onClick={handleClose}
+            disabled={!!pending}
+            className="bg-red-600/80 text-white px-4 py-2 rounded hover:bg-red-700 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Close channel
+          </button>
+        )}
+      </div>
+
+      {pending && <p className="mt-2 text-sm text-yellow-400">Waiting for the {pending} transaction...</p>}
+      {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+      {funds && funds.allowance < funds.wallet && (
+        <p className="mt-2 text-sm text-gray-400">
+          The custody contract may pull {formatPrice(funds.allowance, displayAsset)}; approve more before depositing beyond that.
+        </p>
+      )}
+    </div>
+  );
+}
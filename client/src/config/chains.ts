@@ -0,0 +1,47 @@
+import { defineChain, type Chain } from 'viem';
+import * as viemChains from 'viem/chains';
+import { CLEARNODE_CONFIG } from './clearnode';
+
+export interface ChainConfig {
+    chainId: number;
+    rpcUrl: string;
+    // Nitrolite custody and adjudicator contracts
+    custody?: `0x${string}`;
+    adjudicator?: `0x${string}`;
+    // Token contract of each asset symbol on this chain
+    tokens: Record<string, `0x${string}`>;
+}
+
+// Chains the app works on. NEXT_PUBLIC_CHAINS takes the same JSON as the server's CHAINS;
+// without it a single chain is configured from NEXT_PUBLIC_CHAIN_ID and NEXT_PUBLIC_RPC_URL
+export const CHAINS: ChainConfig[] = process.env.NEXT_PUBLIC_CHAINS
+    ? (JSON.parse(process.env.NEXT_PUBLIC_CHAINS) as ChainConfig[]).map((chain) => ({ ...chain, tokens: chain.tokens || {} }))
+    : [{
+        chainId: parseInt(CLEARNODE_CONFIG.CHAIN_ID, 10),
+        rpcUrl: process.env.NEXT_PUBLIC_RPC_URL || '',
+        custody: process.env.NEXT_PUBLIC_CUSTODY_ADDRESS as `0x${string}` | undefined,
+        adjudicator: process.env.NEXT_PUBLIC_ADJUDICATOR_ADDRESS as `0x${string}` | undefined,
+        tokens: {},
+    }];
+
+// Chain the wallet is asked to switch to when it is on none of the configured chains
+export const DEFAULT_CHAIN = CHAINS.find((chain) => chain.chainId === parseInt(CLEARNODE_CONFIG.CHAIN_ID, 10)) ?? CHAINS[0];
+
+export function getChainConfig(chainId: number): ChainConfig | null {
+    return CHAINS.find((chain) => chain.chainId === chainId) ?? null;
+}
+
+// viem definition of a configured chain; chains viem does not know are defined from the configuration
+export function getViemChain(config: ChainConfig): Chain {
+    const known = Object.values(viemChains).find((chain) => chain.id === config.chainId);
+    if (known) {
+        return known;
+    }
+
+    return defineChain({
+        id: config.chainId,
+        name: `Chain ${config.chainId}`,
+        nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+        rpcUrls: { default: { http: [config.rpcUrl] } },
+    });
+}
@@ -4,6 +4,8 @@ export const CLEARNODE_CONFIG = {
     APP_NAME: 'Auction App',
     APP_ADDRESS: process.env.NEXT_PUBLIC_APP_ADDRESS || '0xYourApplicationAddress',
     CHAIN_ID: process.env.NEXT_PUBLIC_CHAIN_ID || '137', // Default to Polygon
+    // The ClearNode's own address, the other participant in every channel
+    CLEARNODE_ADDRESS: process.env.NEXT_PUBLIC_CLEARNODE_ADDRESS || '',
     CONTRACT_ADDRESS: process.env.NEXT_PUBLIC_CONTRACT_ADDRESS || '0xYourContractAddress',
 };
 
@@ -87,6 +87,8 @@ export function useAuction({
           break;
 
         case 'auction:settled':
+          // Later settled messages only report the sale's on-chain finalization
+          if (lastMessage.finalization) break;
           if (lastMessage.winner && lastMessage.finalPrice) {
             setAuctionState(prev => ({ ...prev, status: 'ended' }));
             onAuctionSettled?.(lastMessage.winner, BigInt(lastMessage.finalPrice));
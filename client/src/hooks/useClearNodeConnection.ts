@@ -19,6 +19,9 @@ import { generateKeyPair } from "@/context/createSigner";
 import { AUTH_TYPES } from "@/config/clearnode";
 import { WalletClient } from "viem";
 
+// How long to wait for the ClearNode to answer a request
+const REQUEST_TIMEOUT_MS = 10000;
+
 // Custom hook for ClearNode connection
 export function useClearNodeConnection(
   clearNodeUrl: string,
@@ -162,6 +165,13 @@ export function useClearNodeConnection(
         });
 
         console.log("EIP-712 signature generated for challenge:", signature);
+
+        // Keep the signed policy so the auction server can tie this session key to the wallet
+        localStorage.setItem(
+          "session_authorization",
+          JSON.stringify({ message, signature })
+        );
+
         return signature as `0x${string}`;
       } catch (eip712Error) {
         console.error("EIP-712 signing failed:", eip712Error);
@@ -243,6 +253,49 @@ export function useClearNodeConnection(
     [ws]
   );
 
+  // Send a signed request and wait for the ClearNode's response to it
+  const sendRequest = useCallback(
+    async (method: string, params: unknown[] = []): Promise<unknown[]> => {
+      if (!ws || ws.readyState !== WebSocket.OPEN) {
+        throw new Error("WebSocket not connected");
+      }
+
+      const message = await createSignedRequest(method, params);
+      const requestId = JSON.parse(message).req[0];
+
+      return new Promise((resolve, reject) => {
+        const handleResponse = (event: MessageEvent) => {
+          let response;
+          try {
+            response = JSON.parse(event.data);
+          } catch {
+            return;
+          }
+
+          const [id, responseMethod, responseParams] = response.res || [];
+          if (id !== requestId) return;
+
+          clearTimeout(timeout);
+          ws.removeEventListener("message", handleResponse);
+          if (responseMethod === "error") {
+            reject(new Error(JSON.stringify(responseParams)));
+          } else {
+            resolve(Array.isArray(responseParams) ? responseParams : []);
+          }
+        };
+
+        const timeout = setTimeout(() => {
+          ws.removeEventListener("message", handleResponse);
+          reject(new Error(`Request ${method} timed out`));
+        }, REQUEST_TIMEOUT_MS);
+
+        ws.addEventListener("message", handleResponse);
+        ws.send(message);
+      });
+    },
+    [ws, createSignedRequest]
+  );
+
   // Connect to the ClearNode
   const connect = useCallback(() => {
     if (ws) {
@@ -276,7 +329,8 @@ export function useClearNodeConnection(
         console.log("Using EOA address:", eoaAddress);
         console.log("Using participant address:", signer.address);
 
-        if (jwtToken) {
+        // The JWT path skips the EIP-712 policy, so only use it once a policy is stored
+        if (jwtToken && localStorage.getItem("session_authorization")) {
           console.log(
             "JWT token found, sending auth verification request with JWT token"
           );
@@ -481,6 +535,7 @@ export function useClearNodeConnection(
     connect,
     disconnect,
     sendMessage,
+    sendRequest,
     getChannels,
     getLedgerBalances,
     getConfig,
@@ -0,0 +1,104 @@
+import { useState, useEffect, useCallback } from "react";
+import { ethers } from "ethers";
+import { createWalletClient, custom, WalletClient } from "viem";
+import { DEFAULT_CHAIN, getChainConfig, getViemChain } from "@/config/chains";
+
+// Error code wallets return when asked to switch to a chain they do not know
+const UNRECOGNIZED_CHAIN_ERROR = 4902;
+
+// Ask the wallet to switch to a configured chain, adding the chain first if the wallet does not know it
+async function requestChainSwitch(chainId: number) {
+  if (typeof window.ethereum === "undefined") return;
+
+  const hexChainId = `0x${chainId.toString(16)}`;
+  try {
+    await window.ethereum.request({ method: "wallet_switchEthereumChain", params: [{ chainId: hexChainId }] });
+  } catch (error) {
+    const config = getChainConfig(chainId);
+    if ((error as { code?: number }).code !== UNRECOGNIZED_CHAIN_ERROR || !config) {
+      throw error;
+    }
+
+    const chain = getViemChain(config);
+    await window.ethereum.request({
+      method: "wallet_addEthereumChain",
+      params: [{
+        chainId: hexChainId,
+        chainName: chain.name,
+        nativeCurrency: chain.nativeCurrency,
+        rpcUrls: config.rpcUrl ? [config.rpcUrl] : chain.rpcUrls.default.http,
+      }],
+    });
+  }
+}
+
+// Browser wallet hook: connects to MetaMask and exposes a viem wallet client on the wallet's chain
+export function useWallet() {
+  const [wallet, setWallet] = useState<WalletClient | null>(null);
+  const [address, setAddress] = useState<string>("");
+  const [chainId, setChainId] = useState<number | null>(null);
+
+  // Initialize wallet from MetaMask
+  const initializeWallet = useCallback(async () => {
+    try {
+      if (typeof window.ethereum === "undefined") {
+        throw new Error("Please install MetaMask");
+      }
+
+      // Request account access
+      await window.ethereum.request({ method: "eth_requestAccounts" });
+
+      // Create Web3Provider and get signer
+      const provider = new ethers.BrowserProvider(window.ethereum);
+      const signer = await provider.getSigner();
+      const address = await signer.getAddress();
+      const { chainId } = await provider.getNetwork();
+      const walletChainId = Number(chainId);
+
+      // Prompt a switch when the wallet is on none of the configured chains
+      const config = getChainConfig(walletChainId);
+      if (!config) {
+        requestChainSwitch(DEFAULT_CHAIN.chainId).catch((error) => {
+          console.error("Failed to switch network:", error);
+        });
+      }
+
+      const walletClient = createWalletClient({
+        transport: custom(window.ethereum),
+        chain: getViemChain(config ?? DEFAULT_CHAIN),
+        account: address as `0x${string}`,
+      });
+
+      console.log("Account:", walletClient);
+
+      setWallet(walletClient);
+      setAddress(address);
+      setChainId(walletChainId);
+    } catch (error) {
+      console.error("Failed to initialize wallet:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    initializeWallet();
+
+    // Rebuild the wallet client on the new chain whenever the user switches network
+    const handleChainChanged = () => {
+      initializeWallet();
+    };
+    window.ethereum?.on("chainChanged", handleChainChanged);
+    return () => {
+      window.ethereum?.removeListener("chainChanged", handleChainChanged);
+    };
+  }, [initializeWallet]);
+
+  const switchChain = useCallback((targetChainId: number = DEFAULT_CHAIN.chainId) => requestChainSwitch(targetChainId), []);
+
+  return {
+    wallet,
+    address,
+    chainId,
+    isWrongChain: chainId !== null && !getChainConfig(chainId),
+    switchChain,
+  };
+}
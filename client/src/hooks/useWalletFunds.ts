@@ -0,0 +1,280 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { NitroliteClient } from "@erc7824/nitrolite";
+import { createPublicClient, erc20Abi, http, parseUnits, WalletClient } from "viem";
+import { CLEARNODE_CONFIG } from "@/config/clearnode";
+import { getChainConfig, getViemChain } from "@/config/chains";
+import { type AuctionAsset } from "./useWebSocket";
+
+// Challenge period of channels opened from the browser, in seconds
+const CHALLENGE_DURATION = BigInt(86400);
+
+type SendRequest = (method: string, params?: unknown[]) => Promise<unknown[]>;
+
+interface ClearNodeAsset {
+  token: `0x${string}`;
+  chain_id: number;
+  symbol: string;
+  decimals: number;
+}
+
+interface ClearNodeChannel {
+  channel_id: `0x${string}`;
+  status: string;
+  token: `0x${string}`;
+  chain_id: number;
+  amount: string;
+}
+
+// Channel state co-signed by the ClearNode; only the fields the Nitrolite client needs are read
+interface SignedChannelState {
+  channel_id: `0x${string}`;
+  intent: number;
+  version: number;
+  state_data: `0x${string}`;
+  allocations: Array<{ destination: `0x${string}`; token: `0x${string}`; amount: string }>;
+  server_signature: unknown;
+}
+
+export interface WalletFunds {
+  // Tokens held by the wallet itself
+  wallet: bigint;
+  // Tokens the custody contract may pull from the wallet
+  allowance: bigint;
+  // Deposited in the custody contract and not yet in a channel
+  custody: bigint;
+  // Unified balance on the ClearNode, which bids are checked against
+  ledger: bigint;
+  channel: ClearNodeChannel | null;
+}
+
+// The ClearNode returns lists as the response's first parameter
+function firstParam<T>(params: unknown[]): T[] {
+  return (Array.isArray(params[0]) ? params[0] : params) as T[];
+}
+
+// Convert a ClearNode-signed state into the form the Nitrolite client submits; the client and
+// server share no code, so this is the browser's counterpart of the server's serverChannel.ts
+const toCandidateState = ({ channel_id, intent, version, state_data, allocations, server_signature }: SignedChannelState) => ({
+  channelId: channel_id,
+  intent,
+  version: BigInt(version),
+  data: state_data,
+  allocations: allocations.map((allocation) => ({ ...allocation, amount: BigInt(allocation.amount) })),
+  serverSignature: server_signature,
+});
+
+// Wallet funds hook: reads a bidder's on-chain, custody and ledger balances of an asset and moves
+// funds between them through the Nitrolite custody contract on the wallet's chain
+export function useWalletFunds(
+  wallet: WalletClient | null,
+  chainId: number | null,
+  sendRequest: SendRequest,
+  symbol: string
+) {
+  const [asset, setAsset] = useState<(AuctionAsset & { token: `0x${string}` }) | null>(null);
+  const [funds, setFunds] = useState<WalletFunds | null>(null);
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const chain = chainId !== null ? getChainConfig(chainId) : null;
+  const address = wallet?.account?.address;
+
+  const publicClient = useMemo(
+    () => (chain ? createPublicClient({ chain: getViemChain(chain), transport: http(chain.rpcUrl || undefined) }) : null),
+    [chain]
+  );
+
+  const nitroliteClient = useMemo(() => {
+    if (!wallet || !publicClient || !chain?.custody || !chain.adjudicator || !asset) return null;
+
+    return new NitroliteClient({
+      publicClient,
+      walletClient: wallet,
+      stateWalletClient: wallet,
+      account: wallet.account,
+      chainId: chain.chainId,
+      challengeDuration: CHALLENGE_DURATION,
+      addresses: {
+        custody: chain.custody,
+        adjudicator: chain.adjudicator,
+        guestAddress: CLEARNODE_CONFIG.CLEARNODE_ADDRESS as `0x${string}`,
+        tokenAddress: asset.token,
+      },
+    });
+  }, [wallet, publicClient, chain, asset]);
+
+  // Look up the asset's token on the wallet's chain, preferring the configured address
+  useEffect(() => {
+    if (!chain) return;
+
+    sendRequest("get_assets", [{ chain_id: chain.chainId }])
+      .then((params) => {
+        const found = firstParam<ClearNodeAsset>(params).find((entry) => entry?.symbol === symbol && entry.chain_id === chain.chainId);
+        const token = chain.tokens[symbol] ?? found?.token;
+        setAsset(token && found ? { symbol, decimals: found.decimals, token } : null);
+      })
+      .catch((error) => setError(error instanceof Error ? error.message : String(error)));
+  }, [chain, symbol, sendRequest]);
+
+  const refresh = useCallback(async () => {
+    if (!address || !publicClient || !asset || !nitroliteClient) return;
+
+    try {
+      const [walletBalance, allowance, custody, ledgerParams, channelParams] = await Promise.all([
+        publicClient.readContract({ address: asset.token, abi: erc20Abi, functionName: "balanceOf", args: [address] }),
+        publicClient.readContract({ address: asset.token, abi: erc20Abi, functionName: "allowance", args: [address, chain!.custody!] }),
+        nitroliteClient.getAccountBalance(asset.token) as Promise<bigint>,
+        sendRequest("get_ledger_balances", [{ participant: address }]),
+        sendRequest("get_channels", [{ participant: address }]),
+      ]);
+
+      const ledger = firstParam<{ asset: string; amount: string }>(ledgerParams).find((entry) => entry?.asset === symbol);
+      const channel = firstParam<ClearNodeChannel>(channelParams).find((entry) => (
+        entry?.status === "open" && entry.chain_id === chain!.chainId && entry.token.toLowerCase() === asset.token.toLowerCase()
+      ));
+
+      setFunds({
+        wallet: walletBalance,
+        allowance,
+        custody,
+        // The ClearNode reports ledger balances as decimal strings in whole units
+        ledger: ledger ? parseUnits(ledger.amount, asset.decimals) : BigInt(0),
+        channel: channel ?? null,
+      });
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    }
+  }, [address, publicClient, asset, nitroliteClient, chain, symbol, sendRequest]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Run an on-chain step, wait for its transaction and refresh the balances
+  const runStep = useCallback(
+    async (step: string, send: () => Promise<`0x${string}`>) => {
+      if (!publicClient) throw new Error("Wallet is not on a supported chain");
+
+      setPending(step);
+      setError(null);
+      try {
+        const hash = await send();
+        const receipt = await publicClient.waitForTransactionReceipt({ hash });
+        if (receipt.status !== "success") {
+          throw new Error(`Transaction ${hash} reverted`);
+        }
+        await refresh();
+        return hash;
+      } catch (error) {
+        setError(error instanceof Error ? error.message : String(error));
+        throw error;
+      } finally {
+        setPending(null);
+      }
+    },
+    [publicClient, refresh]
+  );
+
+  const requireClient = useCallback(() => {
+    if (!nitroliteClient || !asset || !chain || !address) {
+      throw new Error("Custody contracts are not configured for this chain");
+    }
+    return { client: nitroliteClient, asset, chain, address };
+  }, [nitroliteClient, asset, chain, address]);
+
+  // Ask the ClearNode to co-sign a resize or close of the wallet's channel
+  const requestSignedState = useCallback(
+    async (method: "resize_channel" | "close_channel", params: Record<string, unknown>) => {
+      const state = (await sendRequest(method, [{ ...params, funds_destination: address }]))[0] as SignedChannelState | undefined;
+      if (!state?.server_signature) {
+        throw new Error(`ClearNode did not sign the ${method}`);
+      }
+      return state;
+    },
+    [sendRequest, address]
+  );
+
+  const approve = useCallback(
+    (amount: bigint) => runStep("approve", () => requireClient().client.approveTokens(amount)),
+    [runStep, requireClient]
+  );
+
+  const deposit = useCallback(
+    (amount: bigint) => runStep("deposit", () => requireClient().client.deposit(amount)),
+    [runStep, requireClient]
+  );
+
+  // Open a channel with the ClearNode holding funds already deposited in custody
+  const createChannel = useCallback(
+    (amount: bigint) =>
+      runStep("createChannel", async () => {
+        const { client, asset, chain } = requireClient();
+        const proposal = (await sendRequest("create_channel", [{
+          chain_id: chain.chainId,
+          token: asset.token,
+          amount: amount.toString(),
+        }]))[0] as { channel: unknown; state: unknown; server_signature: unknown } | undefined;
+        if (!proposal?.server_signature) {
+          throw new Error("ClearNode did not sign the new channel");
+        }
+
+        const { txHash } = await client.createChannel({
+          channel: proposal.channel,
+          unsignedInitialState: proposal.state,
+          serverSignature: proposal.server_signature,
+        });
+        return txHash;
+      }),
+    [runStep, requireClient, sendRequest]
+  );
+
+  // Move deposited funds into the open channel
+  const resizeChannel = useCallback(
+    (amount: bigint) =>
+      runStep("resizeChannel", async () => {
+        const { client } = requireClient();
+        if (!funds?.channel) throw new Error("No open channel to resize");
+
+        const state = await requestSignedState("resize_channel", {
+          channel_id: funds.channel.channel_id,
+          resize_amount: amount.toString(),
+        });
+        return client.resizeChannel({ resizeState: toCandidateState(state), proofStates: [] });
+      }),
+    [runStep, requireClient, requestSignedState, funds]
+  );
+
+  // Close the channel, paying its funds back into custody
+  const closeChannel = useCallback(
+    () =>
+      runStep("closeChannel", async () => {
+        const { client } = requireClient();
+        if (!funds?.channel) throw new Error("No open channel to close");
+
+        const state = await requestSignedState("close_channel", { channel_id: funds.channel.channel_id });
+        return client.closeChannel({ stateData: state.state_data, finalState: toCandidateState(state) });
+      }),
+    [runStep, requireClient, requestSignedState, funds]
+  );
+
+  const withdraw = useCallback(
+    (amount: bigint) => runStep("withdraw", () => requireClient().client.withdrawal(amount)),
+    [runStep, requireClient]
+  );
+
+  return {
+    asset,
+    funds,
+    pending,
+    error,
+    isSupportedChain: !!chain,
+    refresh,
+    approve,
+    deposit,
+    createChannel,
+    resizeChannel,
+    closeChannel,
+    withdraw,
+  };
+}
@@ -3,8 +3,105 @@ import { generateRequestId, getCurrentTimestamp } from "@erc7824/nitrolite";
 import { createEthersSigner } from "@/context/createSigner";
 import { type RequestData, type NitroliteRPCMessage } from "@erc7824/nitrolite";
 
+export interface SoftCloseRule {
+  window: number;
+  extension: number;
+  maxExtension: number;
+}
+
+export type IncrementPolicy =
+  | { type: 'absolute'; amount: string }
+  | { type: 'percentage'; basisPoints: number }
+  | { type: 'tiered'; tiers: Array<{ from: string; increment: string }> };
+
+export type AuctionStatus = 'active' | 'revealing' | 'ended' | 'finalizing';
+
+export type AuctionOutcome = 'sold' | 'unsold' | 'cancelled';
+
+export type AuctionFormat = 'english' | 'sealed' | 'vickrey' | 'dutch' | 'uniform';
+
+export interface SealedBidRule {
+  // Seconds after bidding closes during which sealed bids can be revealed
+  revealWindow: number;
+  // Bond forfeited if a sealed bid is never revealed, in base units
+  penalty: string;
+}
+
+export type DutchPriceSchedule =
+  | { type: 'linear'; floorPrice: string }
+  | { type: 'stepwise'; floorPrice: string; decrement: string; interval: number };
+
+// Asset an auction settles in; amounts are integers in its smallest unit
+export interface AuctionAsset {
+  symbol: string;
+  decimals: number;
+}
+
+// Progress of a sale's on-chain finalization, sent with `auction:settled` as it is submitted and confirmed
+export interface OnChainFinalization {
+  status: 'pending' | 'submitted' | 'confirmed' | 'failed' | 'skipped';
+  transactions: Array<{
+    kind: 'resize' | 'close' | 'attestation';
+    hash: string;
+    confirmations: number;
+    blockNumber?: string;
+  }>;
+  startedAt: number;
+  confirmedAt?: number;
+  error?: string;
+}
+
+export interface AuctionSummary {
+  auctionId: string;
+  title: string;
+  description: string;
+  seller: string;
+  format: AuctionFormat;
+  status: AuctionStatus;
+  outcome: AuctionOutcome | null;
+  asset: AuctionAsset;
+  units: number;
+  startingPrice: string;
+  currentBid: string;
+  currentBidder: string | null;
+  endTime: string;
+  bidsTotal: number;
+  // Asking price of an active Dutch auction
+  currentPrice: string | null;
+  finalPrice: string | null;
+  hasReserve: boolean;
+  reserveMet: boolean;
+}
+
+export interface AuctionListFilters {
+  status?: AuctionStatus;
+  seller?: string;
+  // Only active auctions ending within this many seconds
+  endingWithin?: number;
+}
+
+// A uniform-price bid with the units it would win if the auction closed now
+export interface StandingBid {
+  bidder: string;
+  price: string;
+  quantity: number;
+  filled: number;
+}
+
+export interface BidMessage {
+  bidder: string;
+  amount: string;
+  quantity?: number;
+  // Placed automatically for the bidder's maximum bid
+  proxy?: boolean;
+  timestamp: string | number;
+  requestId?: number;
+  signature?: string;
+}
+
 interface WebSocketMessage {
   type: string;
+  auctionId?: string;
   payload?: {
     bidder?: string;
     bidAmount?: string;
@@ -17,15 +114,42 @@ interface WebSocketMessage {
   currentBid?: string;
   currentBidder?: string | null;
   endTime?: string | number;
+  softClose?: SoftCloseRule | null;
+  hasReserve?: boolean;
+  reserveMet?: boolean;
+  incrementPolicy?: IncrementPolicy | null;
+  minNextBid?: string;
+  sold?: boolean;
   seller?: string;
-  status?: 'active' | 'ended' | 'finalizing';
-  bids?: Array<{
-    bidder: string;
-    amount: string;
-    timestamp: string | number;
-  }>;
-  winner?: string;
-  finalPrice?: string;
+  format?: AuctionFormat;
+  asset?: AuctionAsset;
+  status?: AuctionStatus;
+  outcome?: AuctionOutcome | null;
+  sealedBid?: SealedBidRule | null;
+  revealEndTime?: string | null;
+  commitmentsTotal?: number;
+  revealsTotal?: number;
+  dutchSchedule?: DutchPriceSchedule | null;
+  currentPrice?: string | null;
+  units?: number;
+  standingBids?: StandingBid[];
+  bidder?: string;
+  bids?: BidMessage[];
+  bidsTotal?: number;
+  bidsOffset?: number;
+  bid?: BidMessage;
+  extended?: boolean;
+  winner?: string | null;
+  winningBid?: string | null;
+  winners?: Array<{ bidder: string; quantity: number }>;
+  finalization?: OnChainFinalization | null;
+  maxAmount?: string;
+  cancellationPenalty?: string | null;
+  penalty?: string;
+  finalPrice?: string | null;
+  auctions?: AuctionSummary[];
+  total?: number;
+  offset?: number;
 }
 
 // WebSocket hook for connecting to the auction server
@@ -75,6 +199,15 @@ export function useWebSocket() {
       console.log("WebSocket connection established");
       setIsConnected(true);
       setError(null);
+
+      // Tie the session key to the wallet that authorized it with the ClearNode
+      const authorization = localStorage.getItem("session_authorization");
+      if (authorization) {
+        webSocket.send(JSON.stringify({
+          type: "auction:authorize",
+          payload: { authorization: JSON.parse(authorization) }
+        }));
+      }
     };
 
     webSocket.onclose = () => {
@@ -152,9 +285,146 @@ export function useWebSocket() {
     [createSignedRequest, sendMessage]
   );
 
-  // Get auction state
+  // Set a private maximum the server bids up to on this bidder's behalf
+  const placeMaxBid = useCallback(
+    async (payload: { auctionId: string; bidder: string; maxAmount: string }) => {
+      try {
+        // Create signed request for the maximum bid
+        const signedRequest = await createSignedRequest("place_max_bid", [
+          payload.auctionId,
+          payload.bidder,
+          payload.maxAmount
+        ]);
+
+        // Send the signed request
+        sendMessage({
+          type: "auction:maxBid",
+          payload: {
+            auctionId: payload.auctionId,
+            request: signedRequest
+          }
+        });
+      } catch (error) {
+        console.error("Error setting maximum bid:", error);
+        throw error;
+      }
+    },
+    [createSignedRequest, sendMessage]
+  );
+
+  // Bid a price per unit for a quantity of a uniform-price auction's units
+  const placeUnitBid = useCallback(
+    async (payload: { auctionId: string; bidder: string; price: string; quantity: number }) => {
+      try {
+        // Create signed request for the unit bid
+        const signedRequest = await createSignedRequest("place_unit_bid", [
+          payload.auctionId,
+          payload.bidder,
+          payload.price,
+          payload.quantity
+        ]);
+
+        // Send the signed request
+        sendMessage({
+          type: "auction:unitBid",
+          payload: {
+            auctionId: payload.auctionId,
+            request: signedRequest
+          }
+        });
+      } catch (error) {
+        console.error("Error placing unit bid:", error);
+        throw error;
+      }
+    },
+    [createSignedRequest, sendMessage]
+  );
+
+  // Commit to a sealed bid without revealing its amount
+  const commitBid = useCallback(
+    async (payload: { auctionId: string; bidder: string; commitment: string }) => {
+      try {
+        // Create signed request for the commitment
+        const signedRequest = await createSignedRequest("commit_bid", [
+          payload.auctionId,
+          payload.bidder,
+          payload.commitment
+        ]);
+
+        // Send the signed request
+        sendMessage({
+          type: "auction:commit",
+          payload: {
+            auctionId: payload.auctionId,
+            request: signedRequest
+          }
+        });
+      } catch (error) {
+        console.error("Error committing bid:", error);
+        throw error;
+      }
+    },
+    [createSignedRequest, sendMessage]
+  );
+
+  // Reveal a sealed bid once bidding has closed
+  const revealBid = useCallback(
+    async (payload: { auctionId: string; bidder: string; amount: string; salt: string }) => {
+      try {
+        // Create signed request for the reveal
+        const signedRequest = await createSignedRequest("reveal_bid", [
+          payload.auctionId,
+          payload.bidder,
+          payload.amount,
+          payload.salt
+        ]);
+
+        // Send the signed request
+        sendMessage({
+          type: "auction:reveal",
+          payload: {
+            auctionId: payload.auctionId,
+            request: signedRequest
+          }
+        });
+      } catch (error) {
+        console.error("Error revealing bid:", error);
+        throw error;
+      }
+    },
+    [createSignedRequest, sendMessage]
+  );
+
+  // Buy a Dutch auction at its current price
+  const acceptPrice = useCallback(
+    async (payload: { auctionId: string; buyer: string; price: string }) => {
+      try {
+        // Create signed request for accepting the price
+        const signedRequest = await createSignedRequest("accept_price", [
+          payload.auctionId,
+          payload.buyer,
+          payload.price
+        ]);
+
+        // Send the signed request
+        sendMessage({
+          type: "auction:accept",
+          payload: {
+            auctionId: payload.auctionId,
+            request: signedRequest
+          }
+        });
+      } catch (error) {
+        console.error("Error accepting price:", error);
+        throw error;
+      }
+    },
+    [createSignedRequest, sendMessage]
+  );
+
+  // Get auction state, optionally with a page of older bids
   const getAuctionState = useCallback(
-    async (auctionId: string) => {
+    async (auctionId: string, page?: { offset?: number; limit?: number }) => {
       try {
         // Create signed request for getting auction state
         const signedRequest = await createSignedRequest("get_auction_state", [auctionId]);
@@ -164,7 +434,8 @@ export function useWebSocket() {
           type: "auction:getState",
           payload: {
             auctionId,
-            request: signedRequest
+            request: signedRequest,
+            page
           }
         });
       } catch (error) {
@@ -201,12 +472,78 @@ export function useWebSocket() {
     [createSignedRequest, sendMessage]
   );
 
+  // Cancel an auction as its seller
+  const cancelAuction = useCallback(
+    async (payload: { auctionId: string; seller: string }) => {
+      try {
+        const signedRequest = await createSignedRequest("cancel_auction", [
+          payload.auctionId,
+          payload.seller
+        ]);
+
+        sendMessage({
+          type: "auction:cancel",
+          payload: {
+            auctionId: payload.auctionId,
+            request: signedRequest
+          }
+        });
+      } catch (error) {
+        console.error("Error cancelling auction:", error);
+        throw error;
+      }
+    },
+    [createSignedRequest, sendMessage]
+  );
+
+  // List auctions for the catalog
+  const listAuctions = useCallback(
+    (filters: AuctionListFilters = {}, page?: { offset?: number; limit?: number }) => {
+      return sendMessage({
+        type: "auction:list",
+        payload: { filters, page }
+      });
+    },
+    [sendMessage]
+  );
+
+  // Follow an auction's live updates
+  const subscribeToAuction = useCallback(
+    (auctionId: string) => {
+      return sendMessage({
+        type: "auction:subscribe",
+        payload: { auctionId }
+      });
+    },
+    [sendMessage]
+  );
+
+  // Stop following an auction
+  const unsubscribeFromAuction = useCallback(
+    (auctionId: string) => {
+      return sendMessage({
+        type: "auction:unsubscribe",
+        payload: { auctionId }
+      });
+    },
+    [sendMessage]
+  );
+
   return {
     isConnected,
     error,
     lastMessage,
     placeBid,
+    placeMaxBid,
+    placeUnitBid,
+    commitBid,
+    revealBid,
+    acceptPrice,
     getAuctionState,
-    settleAuction
+    settleAuction,
+    cancelAuction,
+    listAuctions,
+    subscribeToAuction,
+    unsubscribeFromAuction
   };
 }
@@ -0,0 +1,60 @@
+/**
+ * Authentication configuration
+ * EIP-712 policy shared by the ClearNode auth flow and client session key authorization
+ */
+import dotenv from 'dotenv';
+import logger from '../utils/logger.js';
+
+// Load environment variables
+dotenv.config();
+
+export const AUTH_SCOPE = 'app.auction.app';
+
+const DEFAULT_REQUEST_MAX_AGE_MS = 30000;
+
+/**
+ * Read the signed request freshness window, falling back to the default when it is not a positive whole number
+ * @returns {number} Window in milliseconds
+ */
+function readRequestMaxAgeMs(): number {
+  const setting = process.env.REQUEST_MAX_AGE_MS?.trim();
+  if (!setting) {
+    return DEFAULT_REQUEST_MAX_AGE_MS;
+  }
+
+  const maxAge = /^\d+$/.test(setting) ? Number(setting) : NaN;
+  if (!Number.isSafeInteger(maxAge) || maxAge <= 0) {
+    logger.error(`REQUEST_MAX_AGE_MS must be a positive whole number of milliseconds, got "${setting}"; using ${DEFAULT_REQUEST_MAX_AGE_MS}`);
+    return DEFAULT_REQUEST_MAX_AGE_MS;
+  }
+  return maxAge;
+}
+
+// Maximum distance in milliseconds between a signed request's timestamp and the server clock
+export const REQUEST_MAX_AGE_MS = readRequestMaxAgeMs();
+
+/**
+ * EIP-712 domain used for auth policy signatures
+ * @returns {Object} The typed data domain
+ */
+export const getAuthDomain = () => {
+  return {
+    name: 'Auction App',
+  };
+};
+
+export const AUTH_TYPES = {
+  Policy: [
+    { name: 'challenge', type: 'string' },
+    { name: 'scope', type: 'string' },
+    { name: 'wallet', type: 'address' },
+    { name: 'application', type: 'address' },
+    { name: 'participant', type: 'address' },
+    { name: 'expire', type: 'uint256' },
+    { name: 'allowances', type: 'Allowance[]' },
+  ],
+  Allowance: [
+    { name: 'asset', type: 'string' },
+    { name: 'amount', type: 'uint256' },
+  ],
+};
@@ -0,0 +1,75 @@
+/**
+ * Chain configuration
+ * Chains the server works on, with their RPC endpoints, Nitrolite contracts and tokens.
+ * `CHAINS` takes the same JSON as the client's `NEXT_PUBLIC_CHAINS`; without it a single chain
+ * is configured from `CHAIN_ID`, `RPC_URL`, `CUSTODY_ADDRESS` and `ADJUDICATOR_ADDRESS`.
+ */
+import { defineChain, type Chain } from 'viem';
+import * as viemChains from 'viem/chains';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+export interface ChainConfig {
+  chainId: number;
+  rpcUrl: string;
+  // Nitrolite custody and adjudicator contracts; the server's channel is left alone without them
+  custody?: `0x${string}`;
+  adjudicator?: `0x${string}`;
+  // Token contract of each asset symbol on this chain
+  tokens: Record<string, `0x${string}`>;
+}
+
+/**
+ * Read the configured chains from the environment
+ * @returns {ChainConfig[]} Configured chains
+ */
+function loadChains(): ChainConfig[] {
+  if (process.env.CHAINS) {
+    return (JSON.parse(process.env.CHAINS) as ChainConfig[]).map((chain) => ({ ...chain, tokens: chain.tokens || {} }));
+  }
+
+  return [{
+    chainId: parseInt(process.env.CHAIN_ID || '137', 10),
+    // POLYGON_RPC_URL is still read for setups from before other chains were supported
+    rpcUrl: process.env.RPC_URL || process.env.POLYGON_RPC_URL || '',
+    custody: process.env.CUSTODY_ADDRESS as `0x${string}` | undefined,
+    adjudicator: process.env.ADJUDICATOR_ADDRESS as `0x${string}` | undefined,
+    tokens: {}
+  }];
+}
+
+export const CHAINS = loadChains();
+
+// Chain used where none is implied, such as for attestations; the first configured chain by default
+export const DEFAULT_CHAIN_ID = parseInt(process.env.DEFAULT_CHAIN_ID || String(CHAINS[0].chainId), 10);
+
+/**
+ * Get the configuration of a chain
+ * @param {number} chainId - Chain ID
+ * @returns {ChainConfig | null} The chain's configuration, or null if the server is not configured for it
+ */
+export function getChainConfig(chainId: number): ChainConfig | null {
+  return CHAINS.find((chain) => chain.chainId === chainId) ?? null;
+}
+
+/**
+ * Get the viem definition of a configured chain
+ * Chains viem does not know are defined from the configuration alone.
+ * @param {ChainConfig} config - Chain configuration
+ * @returns {Chain} The viem chain
+ */
+export function getViemChain(config: ChainConfig): Chain {
+  const known = Object.values(viemChains).find((chain) => chain.id === config.chainId);
+  if (known) {
+    return known;
+  }
+
+  return defineChain({
+    id: config.chainId,
+    name: `Chain ${config.chainId}`,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: { default: { http: [config.rpcUrl] } }
+  });
+}
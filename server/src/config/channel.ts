@@ -0,0 +1,27 @@
+/**
+ * Server channel configuration
+ * How the server's own channel with the ClearNode is funded and kept topped up
+ */
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+// Asset the server's channel holds
+export const CHANNEL_ASSET = process.env.CHANNEL_ASSET || 'usdc';
+
+// Amount deposited into a new channel in base units; no channel is created when it is 0
+export const CHANNEL_DEPOSIT_AMOUNT = BigInt(process.env.CHANNEL_DEPOSIT_AMOUNT || '0');
+
+// The channel is topped up by CHANNEL_TOP_UP_AMOUNT once it holds less than this, in base units
+export const CHANNEL_TOP_UP_THRESHOLD = BigInt(process.env.CHANNEL_TOP_UP_THRESHOLD || '0');
+export const CHANNEL_TOP_UP_AMOUNT = BigInt(process.env.CHANNEL_TOP_UP_AMOUNT || process.env.CHANNEL_DEPOSIT_AMOUNT || '0');
+
+// How often the channel's balance is checked, in milliseconds
+export const CHANNEL_CHECK_INTERVAL_MS = parseInt(process.env.CHANNEL_CHECK_INTERVAL_MS || '60000', 10);
+
+// How long to wait for the ClearNode to report a new channel as open, in milliseconds
+export const CHANNEL_OPEN_TIMEOUT_MS = parseInt(process.env.CHANNEL_OPEN_TIMEOUT_MS || '120000', 10);
+
+// File the server's channel is recorded in
+export const CHANNEL_STORE_PATH = process.env.CHANNEL_STORE_PATH || 'data/channel.json';
@@ -0,0 +1,26 @@
+/**
+ * Fee configuration
+ * Platform fee taken from every sale's proceeds at settlement
+ */
+import dotenv from 'dotenv';
+import logger from '../utils/logger.js';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Read the platform fee setting, falling back to no fee when it is not a whole number of basis points
+ * @returns {number} Platform fee in basis points
+ */
+function readPlatformFeeBps(): number {
+  const setting = process.env.PLATFORM_FEE_BPS?.trim() || '0';
+  const bps = /^\d+$/.test(setting) ? Number(setting) : NaN;
+  if (!Number.isInteger(bps) || bps > 10000) {
+    logger.error(`PLATFORM_FEE_BPS must be a whole number of basis points from 0 to 10000, got "${setting}"; charging no platform fee`);
+    return 0;
+  }
+  return bps;
+}
+
+// Platform fee in basis points of each sale's price, paid to the server address
+export const PLATFORM_FEE_BPS = readPlatformFeeBps();
@@ -0,0 +1,25 @@
+/**
+ * On-chain finalization configuration
+ * How the server finalizes settled auctions through the Nitrolite contracts of each chain
+ */
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+export type FinalizationMode = 'resize' | 'close';
+
+// The ClearNode's address, the other participant in the server's channel
+export const CLEARNODE_ADDRESS = process.env.CLEARNODE_ADDRESS as `0x${string}` | undefined;
+
+// Challenge period of the server's channel in seconds
+export const CHALLENGE_DURATION = BigInt(process.env.CHALLENGE_DURATION || '86400');
+
+// Whether the server's channel is resized to take in its proceeds or closed after each sale
+export const FINALIZATION_MODE: FinalizationMode = process.env.FINALIZATION_MODE === 'close' ? 'close' : 'resize';
+
+// Block confirmations to wait for before a finalization transaction counts as confirmed
+export const FINALIZATION_CONFIRMATIONS = parseInt(process.env.FINALIZATION_CONFIRMATIONS || '3', 10);
+
+// Address that receives auction-result attestations; attestations are not written without one
+export const ATTESTATION_ADDRESS = process.env.ATTESTATION_ADDRESS as `0x${string}` | undefined;
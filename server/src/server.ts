@@ -3,28 +3,112 @@
  */
 
 import { createWebSocketServer, sendError, startPingInterval } from './config/websocket.js';
+import { PLATFORM_FEE_BPS } from './config/fees.js';
+import { ATTESTATION_ADDRESS, FINALIZATION_MODE } from './config/onChain.js';
 import { initializeRPCClient } from './services/index.js';
 import logger from './utils/logger.js';
+import { isAmount } from './utils/amounts.js';
 import { 
   createAuctionSession,
   updateAuctionBid,
   settleAuctionSession,
+  cancelAuctionSession,
+  reconcileSettlements,
   getAuctionSession,
   hasAuctionSession,
-  createDefaultAuction
+  createDefaultAuction,
+  restoreAuctionSessions,
+  isValidSoftCloseRule,
+  isReserveMet,
+  commitSealedBid,
+  revealSealedBid,
+  acceptDutchPrice,
+  placeUnitBid,
+  setProxyBid,
+  runProxyBids,
+  runForAuction,
+  DEFAULT_BID_PAGE_SIZE,
+  MAX_BID_PAGE_SIZE
 } from './services/appSessions.js';
+import {
+  authorizeSessionKey,
+  isRequestIdentity,
+  verifySignedRequest,
+  type SessionKeyAuthorization
+} from './services/requestAuth.js';
+import { startAuctionScheduler } from './services/auctionScheduler.js';
+import { getMinimumNextBid, isValidIncrementPolicy } from './services/bidIncrements.js';
+import { computeBidCommitment, isSealedFormat, isValidSealedBidRule } from './services/sealedBids.js';
+import { getDutchPrice, isValidDutchSchedule } from './services/dutchPricing.js';
+import { isValidUnitCount } from './services/uniformPrice.js';
+import { getAvailableFunds } from './services/ledgerBalances.js';
+import { findSupportedAsset, getAuctionAsset, getSupportedAssets } from './services/assets.js';
+import { BASIS_POINTS, isValidFeeSplits } from './services/feeSplits.js';
+import { canCancelAuction, getCancellationPayout, isValidCancellationPenalty } from './services/cancellation.js';
+import { finalizeAuctionOnChain, resumeFinalizations } from './services/onChainFinalization.js';
+import { ensureServerChannel, startChannelMonitor } from './services/serverChannel.js';
+import {
+  buildAuctionState,
+  listAuctions,
+  toAuctionSummary,
+  toSettlementResult,
+  toStandingBids,
+  DEFAULT_LIST_PAGE_SIZE,
+  MAX_LIST_PAGE_SIZE,
+  type AuctionListFilters
+} from './services/auctionCatalog.js';
+import {
+  broadcastToAuction,
+  joinAuctionRoom,
+  leaveAllAuctionRooms,
+  leaveAuctionRoom
+} from './services/auctionRooms.js';
+import { ethers } from 'ethers';
 import { WebSocket } from 'ws';
+import {
+  AuctionFormat,
+  AuctionSession,
+  AuctionStatus,
+  DutchPriceSchedule,
+  IncrementPolicy,
+  BidRecord,
+  RoyaltySplit,
+  SealedBidRule,
+  SoftCloseRule
+} from './types.js';
 
 // Define types
-interface Connection {
-  ws: WebSocket;
+interface CreateAuctionPayload {
   auctionId: string;
+  // Signed `create_auction` request: auction ID, seller, starting price and settings
+  request: string;
 }
 
-interface CreateAuctionPayload {
-  auctionId: string;
-  seller: string;
-  startingPrice: string;
+interface CreateAuctionSettings {
+  title?: string;
+  description?: string;
+  // Auction duration in seconds
+  duration?: number;
+  // Optional anti-sniping extension rule, in seconds
+  softClose?: SoftCloseRule;
+  // Optional hidden reserve price in base units
+  reservePrice?: string;
+  // Optional minimum bid increment rule
+  incrementPolicy?: IncrementPolicy;
+  // Auction format, English unless given
+  format?: AuctionFormat;
+  // Reveal window and unrevealed-bid penalty, required for sealed-bid auctions
+  sealedBid?: SealedBidRule;
+  // Price schedule down to a floor, required for Dutch auctions
+  dutchSchedule?: DutchPriceSchedule;
+  // Number of identical units for sale, required for uniform-price auctions
+  units?: number;
+  // Symbol of a ClearNode-supported asset to settle in, USDC unless given
+  asset?: string;
+  // Optional creator royalties in basis points of the proceeds
+  royalties?: RoyaltySplit[];
+  // Optional amount the seller escrows to be allowed to cancel after bidding starts
+  cancellationPenalty?: string;
 }
 
 interface PlaceBidPayload {
@@ -32,74 +116,825 @@ interface PlaceBidPayload {
   request: string;
 }
 
+interface PlaceMaxBidPayload {
+  auctionId: string;
+  request: string;
+}
+
+interface PlaceUnitBidPayload {
+  auctionId: string;
+  request: string;
+}
+
+interface CommitBidPayload {
+  auctionId: string;
+  request: string;
+}
+
+interface RevealBidPayload {
+  auctionId: string;
+  request: string;
+}
+
+interface AcceptPricePayload {
+  auctionId: string;
+  request: string;
+}
+
 interface SettleAuctionPayload {
   auctionId: string;
   request: string;
 }
 
+interface GetAuctionStatePayload {
+  auctionId: string;
+  request: string;
+  // Optional bid history page, counted from the newest bid
+  page?: {
+    offset?: number;
+    limit?: number;
+  };
+}
+
+interface CancelAuctionPayload {
+  auctionId: string;
+  request: string;
+}
+
+interface ListAuctionsPayload {
+  filters?: AuctionListFilters;
+  page?: {
+    offset?: number;
+    limit?: number;
+  };
+}
+
+interface SubscribePayload {
+  auctionId: string;
+}
+
+interface AuthorizeSessionPayload {
+  authorization: SessionKeyAuthorization;
+}
+
 interface HandlerContext {
-  connections: Map<string, Connection>;
   sendError: (ws: WebSocket, code: string, msg: string) => void;
 }
 
 // Create WebSocket server
 const wss = createWebSocketServer();
 
-// Track active connections
-const connections = new Map<string, Connection>();
+// Auction statuses accepted by list filters
+const AUCTION_STATUSES: AuctionStatus[] = ['active', 'revealing', 'finalizing', 'ended'];
+
+// Supported auction formats
+const AUCTION_FORMATS: AuctionFormat[] = ['english', 'sealed', 'vickrey', 'dutch', 'uniform'];
 
 // Track online users count
 let onlineUsersCount = 0;
 
 /**
- * Handles creating a new auction
+ * Handles registering a client session key for the wallet that authorized it
+ */
+async function handleAuthorizeSession(
+  ws: WebSocket,
+  payload: AuthorizeSessionPayload,
+  { sendError }: HandlerContext
+) {
+  if (!payload || typeof payload !== 'object' || !payload.authorization) {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Signed authorization is required');
+  }
+
+  try {
+    const { sessionKey, wallet } = authorizeSessionKey(payload.authorization);
+
+    ws.send(JSON.stringify({
+      type: 'auction:authorized',
+      sessionKey,
+      wallet
+    }));
+  } catch (error) {
+    logger.auth('Rejected session key authorization:', error);
+    return sendError(ws, 'INVALID_AUTHORIZATION', error instanceof Error ? error.message : 'Invalid authorization');
+  }
+}
+
+/**
+ * Handles creating a new auction
+ */
+async function handleCreateAuction(
+  ws: WebSocket, 
+  payload: CreateAuctionPayload, 
+  { sendError }: HandlerContext
+) {
+  if (!payload || typeof payload !== 'object') {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Invalid payload format');
+  }
+
+  const { auctionId, request } = payload;
+
+  if (!auctionId || !request) {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Auction ID and signed request are required');
+  }
+
+  // Parse and verify the signed request
+  const verification = verifySignedRequest(request, 'create_auction', 4);
+  if (!verification.ok) {
+    return sendError(ws, verification.code, verification.msg);
+  }
+
+  const [createAuctionId, seller, startingPrice, settings] =
+    verification.request.params as [string, string, string, CreateAuctionSettings];
+
+  if (createAuctionId !== auctionId) {
+    return sendError(ws, 'INVALID_REQUEST', 'Auction ID mismatch');
+  }
+
+  if (!seller || !startingPrice) {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Seller address and starting price are required');
+  }
+
+  if (!isAmount(startingPrice)) {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Starting price must be an integer amount in base units');
+  }
+
+  // Only the wallet behind the signing key may sell as itself
+  if (!isRequestIdentity(verification.request, seller)) {
+    return sendError(ws, 'UNAUTHORIZED', 'Seller does not match request signer');
+  }
+
+  if (!settings || typeof settings !== 'object') {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Auction settings must be an object');
+  }
+
+  if (hasAuctionSession(auctionId)) {
+    return sendError(ws, 'AUCTION_EXISTS', 'An auction with this ID already exists');
+  }
+
+  const {
+    title,
+    description,
+    duration,
+    softClose,
+    reservePrice,
+    incrementPolicy,
+    format = 'english',
+    sealedBid,
+    dutchSchedule,
+    units,
+    asset,
+    royalties,
+    cancellationPenalty
+  } = settings;
+
+  if ((title !== undefined && typeof title !== 'string') || (description !== undefined && typeof description !== 'string')) {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Title and description must be strings');
+  }
+
+  if (duration !== undefined && (!Number.isInteger(duration) || duration <= 0)) {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Duration must be a positive number of seconds');
+  }
+
+  if (softClose !== undefined && !isValidSoftCloseRule(softClose)) {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Soft close needs a positive window and extension and a non-negative max extension, in seconds');
+  }
+
+  if (reservePrice !== undefined && !isAmount(reservePrice)) {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Reserve price must be an integer amount in base units');
+  }
+
+  if (incrementPolicy !== undefined && !isValidIncrementPolicy(incrementPolicy)) {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Increment policy must be a positive absolute amount, a percentage in basis points, or ascending price tiers');
+  }
+
+  if (!AUCTION_FORMATS.includes(format)) {
+    return sendError(ws, 'INVALID_PAYLOAD', `Format must be one of ${AUCTION_FORMATS.join(', ')}`);
+  }
+
+  if (isSealedFormat(format)) {
+    if (!isValidSealedBidRule(sealedBid!)) {
+      return sendError(ws, 'INVALID_PAYLOAD', 'Sealed-bid auctions need a positive reveal window in seconds and a penalty in base units');
+    }
+    // Hidden bids can neither trigger extensions nor be compared to an increment
+    if (softClose !== undefined || incrementPolicy !== undefined) {
+      return sendError(ws, 'INVALID_PAYLOAD', 'Soft close and increment policies only apply to English auctions');
+    }
+  } else if (sealedBid !== undefined) {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Sealed-bid settings only apply to sealed-bid auctions');
+  }
+
+  if (format === 'dutch') {
+    if (!isValidDutchSchedule(dutchSchedule!, startingPrice)) {
+      return sendError(ws, 'INVALID_PAYLOAD', 'Dutch auctions need a linear or stepwise schedule down to a floor price below the starting price');
+    }
+    // The first acceptance wins, and the floor price already plays the role of a reserve
+    if (softClose !== undefined || incrementPolicy !== undefined || reservePrice !== undefined) {
+      return sendError(ws, 'INVALID_PAYLOAD', 'Dutch auctions take no soft close, increment policy or reserve price');
+    }
+  } else if (dutchSchedule !== undefined) {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Price schedules only apply to Dutch auctions');
+  }
+
+  if (format === 'uniform') {
+    if (!isValidUnitCount(units!)) {
+      return sendError(ws, 'INVALID_PAYLOAD', 'Uniform-price auctions need a positive whole number of units');
+    }
+    // Bids are priced per unit and raised by the bidder's own choice of price and quantity
+    if (incrementPolicy !== undefined) {
+      return sendError(ws, 'INVALID_PAYLOAD', 'Increment policies only apply to English auctions');
+    }
+  } else if (units !== undefined) {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Units only apply to uniform-price auctions');
+  }
+
+  if (cancellationPenalty !== undefined) {
+    if (!isValidCancellationPenalty(cancellationPenalty)) {
+      return sendError(ws, 'INVALID_PAYLOAD', 'Cancellation penalty must be a positive integer amount in base units');
+    }
+    // A Dutch auction ends at its first acceptance, so there is never a bid to cancel over
+    if (format === 'dutch') {
+      return sendError(ws, 'INVALID_PAYLOAD', 'Dutch auctions can only be cancelled before they sell and take no cancellation penalty');
+    }
+  }
+
+  if (!isValidFeeSplits(royalties ?? [], PLATFORM_FEE_BPS)) {
+    return sendError(ws, 'INVALID_PAYLOAD', `Royalties need distinct recipient addresses and positive basis points that, with the ${PLATFORM_FEE_BPS} basis point platform fee, total at most ${BASIS_POINTS}`);
+  }
+
+  if (asset !== undefined && typeof asset !== 'string') {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Asset must be a symbol');
+  }
+
+  try {
+    // Settle in the seller's choice of the ClearNode's supported assets
+    const auctionAsset = asset === undefined ? undefined : await findSupportedAsset(asset);
+    if (auctionAsset === null) {
+      return sendError(ws, 'UNSUPPORTED_ASSET', `Asset ${asset} is not supported by the ClearNode`);
+    }
+
+    // Create auction session
+    const appId = await createAuctionSession(auctionId, seller, startingPrice, {
+      title,
+      description,
+      duration,
+      softClose,
+      reservePrice,
+      incrementPolicy,
+      format,
+      sealedBid,
+      dutchSchedule,
+      units,
+      asset: auctionAsset,
+      royalties,
+      cancellationPenalty
+    });
+    
+    logger.nitro(`Created auction session with ID ${appId} for auction ${auctionId}`);
+    
+    // The seller follows their own auction
+    joinAuctionRoom(auctionId, ws);
+    
+    // Send confirmation to seller
+    ws.send(JSON.stringify({
+      type: 'auction:created',
+      auctionId,
+      appId,
+      startingPrice,
+      endTime: new Date(getAuctionSession(auctionId)!.endTime).toISOString()
+    }));
+    
+  } catch (error) {
+    logger.error(`Error creating auction ${auctionId}:`, error);
+    return sendError(ws, 'AUCTION_CREATE_ERROR', error instanceof Error ? error.message : 'Failed to create auction');
+  }
+}
+
+/**
+ * Handles a new bid on an auction
+ */
+async function handlePlaceBid(
+  ws: WebSocket, 
+  payload: PlaceBidPayload, 
+  { sendError }: HandlerContext
+) {
+  if (!payload || typeof payload !== 'object') {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Invalid payload format');
+  }
+
+  const { auctionId, request } = payload;
+
+  if (!auctionId || !request) {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Auction ID and signed request are required');
+  }
+
+  try {
+    // Parse and verify the signed request
+    const verification = verifySignedRequest(request, 'place_bid', 3);
+    if (!verification.ok) {
+      return sendError(ws, verification.code, verification.msg);
+    }
+
+    const [bidAuctionId, bidder, bidAmount] = verification.request.params as [string, string, string];
+
+    if (bidAuctionId !== auctionId) {
+      return sendError(ws, 'INVALID_REQUEST', 'Auction ID mismatch');
+    }
+
+    // Only the wallet behind the signing key may bid as itself
+    if (!isRequestIdentity(verification.request, bidder)) {
+      return sendError(ws, 'UNAUTHORIZED', 'Bidder does not match request signer');
+    }
+
+    if (!isAmount(bidAmount)) {
+      return sendError(ws, 'INVALID_BID', 'Bid must be an integer amount in base units');
+    }
+
+    // Bids on an auction are handled one at a time, so each is checked against the state the last one left
+    await runForAuction(auctionId, async () => {
+      // Check if auction exists
+      if (!hasAuctionSession(auctionId)) {
+        return sendError(ws, 'AUCTION_NOT_FOUND', 'Auction not found');
+      }
+
+      // Get current auction state
+      const auction = getAuctionSession(auctionId);
+      if (!auction) {
+        return sendError(ws, 'AUCTION_NOT_FOUND', 'Auction not found');
+      }
+
+      if (isSealedFormat(auction.format)) {
+        return sendError(ws, 'INVALID_AUCTION_FORMAT', 'Sealed-bid auctions take commitments through auction:commit');
+      }
+
+      if (auction.format === 'dutch') {
+        return sendError(ws, 'INVALID_AUCTION_FORMAT', 'Dutch auctions are bought by accepting the price through auction:accept');
+      }
+
+      if (auction.format === 'uniform') {
+        return sendError(ws, 'INVALID_AUCTION_FORMAT', 'Uniform-price auctions take a price and quantity through auction:unitBid');
+      }
+
+      if (auction.status !== 'active') {
+        return sendError(ws, 'AUCTION_CLOSED', 'Auction is no longer accepting bids');
+      }
+
+      if (Date.now() >= auction.endTime) {
+        return sendError(ws, 'AUCTION_ENDED', 'Auction has ended');
+      }
+
+      // Validate bid amount clears the current bid by the auction's minimum increment
+      const minNextBid = getMinimumNextBid(auction);
+      if (BigInt(bidAmount) < minNextBid) {
+        return sendError(ws, 'INVALID_BID', `Bid must be at least ${minNextBid}`);
+      }
+
+      // The bidder must hold the bid on the ClearNode beyond what other live auctions have locked
+      const availableFunds = await getAvailableFunds(bidder, getAuctionAsset(auction), auctionId);
+      if (BigInt(bidAmount) > availableFunds) {
+        return sendError(ws, 'INSUFFICIENT_FUNDS', `Bid exceeds available balance of ${availableFunds}`);
+      }
+
+      const previousEndTime = auction.endTime;
+
+      // Update auction with new bid
+      const success = await updateAuctionBid(auctionId, bidder, bidAmount, verification.request);
+    
+      if (!success) {
+        return sendError(ws, 'BID_FAILED', 'Failed to place bid');
+      }
+
+      // Bidders follow the auctions they bid on, alongside any others they watch
+      joinAuctionRoom(auctionId, ws);
+
+      // Broadcast bid update to the auction's subscribers
+      const updatedAuction = getAuctionSession(auctionId);
+      if (updatedAuction) {
+        broadcastBidPlaced(updatedAuction, updatedAuction.bids[updatedAuction.bids.length - 1], previousEndTime);
+      }
+
+      // Maximum bids answer the new bid
+      await placeProxyBids(auctionId);
+    });
+
+  } catch (error) {
+    logger.error(`Error placing bid for auction ${auctionId}:`, error);
+    return sendError(ws, 'BID_ERROR', error instanceof Error ? error.message : 'Failed to place bid');
+  }
+}
+
+/**
+ * Handles a bidder setting a private maximum for the server to bid up to
+ */
+async function handlePlaceMaxBid(
+  ws: WebSocket,
+  payload: PlaceMaxBidPayload,
+  { sendError }: HandlerContext
+) {
+  if (!payload || typeof payload !== 'object') {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Invalid payload format');
+  }
+
+  const { auctionId, request } = payload;
+
+  if (!auctionId || !request) {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Auction ID and signed request are required');
+  }
+
+  try {
+    // Parse and verify the signed request
+    const verification = verifySignedRequest(request, 'place_max_bid', 3);
+    if (!verification.ok) {
+      return sendError(ws, verification.code, verification.msg);
+    }
+
+    const [maxBidAuctionId, bidder, maxAmount] = verification.request.params as [string, string, string];
+
+    if (maxBidAuctionId !== auctionId) {
+      return sendError(ws, 'INVALID_REQUEST', 'Auction ID mismatch');
+    }
+
+    // Only the wallet behind the signing key may bid as itself
+    if (!isRequestIdentity(verification.request, bidder)) {
+      return sendError(ws, 'UNAUTHORIZED', 'Bidder does not match request signer');
+    }
+
+    if (!isAmount(maxAmount)) {
+      return sendError(ws, 'INVALID_BID', 'Maximum bid must be an integer amount in base units');
+    }
+
+    // Maximum bids are handled in turn with the auction's other bids
+    await runForAuction(auctionId, async () => {
+      const auction = getAuctionSession(auctionId);
+      if (!auction) {
+        return sendError(ws, 'AUCTION_NOT_FOUND', 'Auction not found');
+      }
+
+      // Only open ascending auctions have a visible bid for proxies to answer
+      if ((auction.format ?? 'english') !== 'english') {
+        return sendError(ws, 'INVALID_AUCTION_FORMAT', 'Maximum bids only apply to English auctions');
+      }
+
+      if (auction.status !== 'active') {
+        return sendError(ws, 'AUCTION_CLOSED', 'Auction is no longer accepting bids');
+      }
+
+      if (Date.now() >= auction.endTime) {
+        return sendError(ws, 'AUCTION_ENDED', 'Auction has ended');
+      }
+
+      const formattedBidder = ethers.getAddress(bidder);
+      const previous = auction.proxyBids?.find((entry) => entry.bidder === formattedBidder);
+      if (previous && BigInt(maxAmount) <= BigInt(previous.maxAmount)) {
+        return sendError(ws, 'INVALID_BID', 'A new maximum bid must be higher than your current one');
+      }
+
+      // The current leader can raise their cap; anyone else must be able to outbid them
+      const minNextBid = getMinimumNextBid(auction);
+      if (auction.currentBidder !== formattedBidder && BigInt(maxAmount) < minNextBid) {
+        return sendError(ws, 'INVALID_BID', `Maximum bid must be at least ${minNextBid}`);
+      }
+
+      // The bidder must be able to cover their whole maximum, since the server may bid all of it
+      const availableFunds = await getAvailableFunds(formattedBidder, getAuctionAsset(auction), auctionId);
+      if (BigInt(maxAmount) > availableFunds) {
+        return sendError(ws, 'INSUFFICIENT_FUNDS', `Maximum bid exceeds available balance of ${availableFunds}`);
+      }
+
+      if (!setProxyBid(auctionId, formattedBidder, maxAmount, verification.request)) {
+        return sendError(ws, 'BID_FAILED', 'Failed to set maximum bid');
+      }
+
+      // Bidders follow the auctions they bid on
+      joinAuctionRoom(auctionId, ws);
+
+      // The maximum itself is only ever sent back to its bidder
+      ws.send(JSON.stringify({
+        type: 'auction:maxBidSet',
+        auctionId,
+        maxAmount
+      }));
+
+      await placeProxyBids(auctionId);
+    });
+
+  } catch (error) {
+    logger.error(`Error setting maximum bid for auction ${auctionId}:`, error);
+    return sendError(ws, 'BID_ERROR', error instanceof Error ? error.message : 'Failed to set maximum bid');
+  }
+}
+
+/**
+ * Handles a bid for units of a uniform-price auction
+ */
+async function handlePlaceUnitBid(
+  ws: WebSocket,
+  payload: PlaceUnitBidPayload,
+  { sendError }: HandlerContext
+) {
+  if (!payload || typeof payload !== 'object') {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Invalid payload format');
+  }
+
+  const { auctionId, request } = payload;
+
+  if (!auctionId || !request) {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Auction ID and signed request are required');
+  }
+
+  try {
+    // Parse and verify the signed request
+    const verification = verifySignedRequest(request, 'place_unit_bid', 4);
+    if (!verification.ok) {
+      return sendError(ws, verification.code, verification.msg);
+    }
+
+    const [bidAuctionId, bidder, price, quantity] = verification.request.params as [string, string, string, number];
+
+    if (bidAuctionId !== auctionId) {
+      return sendError(ws, 'INVALID_REQUEST', 'Auction ID mismatch');
+    }
+
+    // Only the wallet behind the signing key may bid as itself
+    if (!isRequestIdentity(verification.request, bidder)) {
+      return sendError(ws, 'UNAUTHORIZED', 'Bidder does not match request signer');
+    }
+
+    if (!isAmount(price) || !isValidUnitCount(quantity)) {
+      return sendError(ws, 'INVALID_BID', 'Bid needs an integer price per unit in base units and a positive whole quantity');
+    }
+
+    // Unit bids are handled one at a time per auction, like English bids
+    await runForAuction(auctionId, async () => {
+      const auction = getAuctionSession(auctionId);
+      if (!auction) {
+        return sendError(ws, 'AUCTION_NOT_FOUND', 'Auction not found');
+      }
+
+      if (auction.format !== 'uniform') {
+        return sendError(ws, 'INVALID_AUCTION_FORMAT', 'Only uniform-price auctions take unit bids');
+      }
+
+      if (auction.status !== 'active') {
+        return sendError(ws, 'AUCTION_CLOSED', 'Auction is no longer accepting bids');
+      }
+
+      if (Date.now() >= auction.endTime) {
+        return sendError(ws, 'AUCTION_ENDED', 'Auction has ended');
+      }
+
+      if (quantity > (auction.units ?? 1)) {
+        return sendError(ws, 'INVALID_BID', `Only ${auction.units ?? 1} units are for sale`);
+      }
+
+      if (BigInt(price) < BigInt(auction.startingPrice)) {
+        return sendError(ws, 'INVALID_BID', `Price must be at least ${auction.startingPrice} per unit`);
+      }
+
+      // A standing bid can be raised but never withdrawn or cut back
+      const previous = auction.unitBids?.find((entry) => entry.bidder === ethers.getAddress(bidder));
+      if (previous && (BigInt(price) < BigInt(previous.price) || quantity < previous.quantity
+        || (price === previous.price && quantity === previous.quantity))) {
+        return sendError(ws, 'INVALID_BID', 'A new bid must raise your price or quantity without lowering either');
+      }
+
+      // The whole bid is escrowed, and replaces what the bidder already holds in this auction
+      const total = BigInt(price) * BigInt(quantity);
+      const availableFunds = await getAvailableFunds(bidder, getAuctionAsset(auction), auctionId);
+      if (total > availableFunds) {
+        return sendError(ws, 'INSUFFICIENT_FUNDS', `Bid total of ${total} exceeds available balance of ${availableFunds}`);
+      }
+
+      const previousEndTime = auction.endTime;
+
+      const success = await placeUnitBid(auctionId, bidder, price, quantity, verification.request);
+      if (!success) {
+        return sendError(ws, 'BID_FAILED', 'Failed to place bid');
+      }
+
+      // Bidders follow the auctions they bid on
+      joinAuctionRoom(auctionId, ws);
+
+      const updatedAuction = getAuctionSession(auctionId);
+      if (updatedAuction) {
+        broadcastToAuction(auctionId, {
+          type: 'auction:unitBidPlaced',
+          auctionId,
+          bid: updatedAuction.bids[updatedAuction.bids.length - 1],
+          bidsTotal: updatedAuction.bids.length,
+          // Clearing price and best bidder if the auction closed now
+          currentBidder: updatedAuction.currentBidder,
+          currentBid: updatedAuction.currentBid,
+          standingBids: toStandingBids(updatedAuction),
+          endTime: new Date(updatedAuction.endTime).toISOString(),
+          extended: updatedAuction.endTime !== previousEndTime,
+          reserveMet: isReserveMet(updatedAuction)
+        });
+      }
+    });
+
+  } catch (error) {
+    logger.error(`Error placing unit bid for auction ${auctionId}:`, error);
+    return sendError(ws, 'BID_ERROR', error instanceof Error ? error.message : 'Failed to place bid');
+  }
+}
+
+/**
+ * Handles a sealed bid commitment
+ */
+async function handleCommitBid(
+  ws: WebSocket,
+  payload: CommitBidPayload,
+  { sendError }: HandlerContext
+) {
+  if (!payload || typeof payload !== 'object') {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Invalid payload format');
+  }
+
+  const { auctionId, request } = payload;
+
+  if (!auctionId || !request) {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Auction ID and signed request are required');
+  }
+
+  try {
+    // Parse and verify the signed request
+    const verification = verifySignedRequest(request, 'commit_bid', 3);
+    if (!verification.ok) {
+      return sendError(ws, verification.code, verification.msg);
+    }
+
+    const [commitAuctionId, bidder, commitment] = verification.request.params as [string, string, string];
+
+    if (commitAuctionId !== auctionId) {
+      return sendError(ws, 'INVALID_REQUEST', 'Auction ID mismatch');
+    }
+
+    // Only the wallet behind the signing key may bid as itself
+    if (!isRequestIdentity(verification.request, bidder)) {
+      return sendError(ws, 'UNAUTHORIZED', 'Bidder does not match request signer');
+    }
+
+    if (typeof commitment !== 'string' || !ethers.isHexString(commitment, 32)) {
+      return sendError(ws, 'INVALID_COMMITMENT', 'Commitment must be a 32-byte hex hash');
+    }
+
+    // Commitments are recorded one at a time per auction, so none lands as bidding closes
+    await runForAuction(auctionId, async () => {
+      const auction = getAuctionSession(auctionId);
+      if (!auction) {
+        return sendError(ws, 'AUCTION_NOT_FOUND', 'Auction not found');
+      }
+
+      if (!isSealedFormat(auction.format)) {
+        return sendError(ws, 'INVALID_AUCTION_FORMAT', 'Only sealed-bid auctions take commitments');
+      }
+
+      if (auction.status !== 'active' || Date.now() >= auction.endTime) {
+        return sendError(ws, 'AUCTION_CLOSED', 'Auction is no longer accepting commitments');
+      }
+
+      // A commitment escrows the penalty bond until it is revealed
+      const penalty = BigInt(auction.sealedBid?.penalty ?? '0');
+      if (penalty > 0n) {
+        const availableFunds = await getAvailableFunds(bidder, getAuctionAsset(auction), auctionId);
+        if (penalty > availableFunds) {
+          return sendError(ws, 'INSUFFICIENT_FUNDS', `Penalty bond of ${penalty} exceeds available balance of ${availableFunds}`);
+        }
+      }
+
+      const success = await commitSealedBid(auctionId, bidder, commitment, verification.request);
+      if (!success) {
+        return sendError(ws, 'COMMIT_FAILED', 'Failed to record commitment');
+      }
+
+      // Bidders follow the auctions they bid on
+      joinAuctionRoom(auctionId, ws);
+
+      // Only the fact that a bid was sealed is shared, not its amount
+      broadcastToAuction(auctionId, {
+        type: 'auction:bidCommitted',
+        auctionId,
+        bidder: ethers.getAddress(bidder),
+        commitmentsTotal: getAuctionSession(auctionId)?.commitments?.length ?? 0
+      });
+    });
+
+  } catch (error) {
+    logger.error(`Error committing bid for auction ${auctionId}:`, error);
+    return sendError(ws, 'COMMIT_ERROR', error instanceof Error ? error.message : 'Failed to commit bid');
+  }
+}
+
+/**
+ * Handles revealing a sealed bid after bidding closes
  */
-async function handleCreateAuction(
-  ws: WebSocket, 
-  payload: CreateAuctionPayload, 
-  { connections, sendError }: HandlerContext
+async function handleRevealBid(
+  ws: WebSocket,
+  payload: RevealBidPayload,
+  { sendError }: HandlerContext
 ) {
   if (!payload || typeof payload !== 'object') {
     return sendError(ws, 'INVALID_PAYLOAD', 'Invalid payload format');
   }
 
-  const { auctionId, seller, startingPrice } = payload;
+  const { auctionId, request } = payload;
 
-  if (!auctionId || !seller || !startingPrice) {
-    return sendError(ws, 'INVALID_PAYLOAD', 'Auction ID, seller address, and starting price are required');
+  if (!auctionId || !request) {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Auction ID and signed request are required');
   }
 
   try {
-    // Create auction session
-    const appId = await createAuctionSession(auctionId, seller, startingPrice);
-    
-    logger.nitro(`Created auction session with ID ${appId} for auction ${auctionId}`);
-    
-    // Store connection
-    connections.set(seller, { ws, auctionId });
-    
-    // Send confirmation to seller
-    ws.send(JSON.stringify({
-      type: 'auction:created',
-      auctionId,
-      appId,
-      startingPrice
-    }));
-    
+    // Parse and verify the signed request
+    const verification = verifySignedRequest(request, 'reveal_bid', 4);
+    if (!verification.ok) {
+      return sendError(ws, verification.code, verification.msg);
+    }
+
+    const [revealAuctionId, bidder, amount, salt] = verification.request.params as [string, string, string, string];
+
+    if (revealAuctionId !== auctionId) {
+      return sendError(ws, 'INVALID_REQUEST', 'Auction ID mismatch');
+    }
+
+    // Only the wallet behind the signing key may reveal its own bid
+    if (!isRequestIdentity(verification.request, bidder)) {
+      return sendError(ws, 'UNAUTHORIZED', 'Bidder does not match request signer');
+    }
+
+    if (!isAmount(amount) || typeof salt !== 'string' || !ethers.isHexString(salt, 32)) {
+      return sendError(ws, 'INVALID_REVEAL', 'Reveal needs an integer amount in base units and a 32-byte hex salt');
+    }
+
+    // Reveals are recorded one at a time per auction, so each escrow update sees the last
+    await runForAuction(auctionId, async () => {
+      const auction = getAuctionSession(auctionId);
+      if (!auction) {
+        return sendError(ws, 'AUCTION_NOT_FOUND', 'Auction not found');
+      }
+
+      if (!isSealedFormat(auction.format)) {
+        return sendError(ws, 'INVALID_AUCTION_FORMAT', 'Only sealed-bid auctions take reveals');
+      }
+
+      if (auction.status === 'active') {
+        return sendError(ws, 'REVEAL_NOT_OPEN', 'Bids can be revealed once bidding closes');
+      }
+
+      if (auction.status !== 'revealing' || Date.now() >= (auction.revealEndTime ?? 0)) {
+        return sendError(ws, 'AUCTION_CLOSED', 'The reveal phase has ended');
+      }
+
+      const formattedBidder = ethers.getAddress(bidder);
+      const commitment = auction.commitments?.find((entry) => entry.bidder === formattedBidder);
+      if (!commitment) {
+        return sendError(ws, 'NO_COMMITMENT', 'No sealed bid from this bidder');
+      }
+
+      if (commitment.revealedAmount !== undefined) {
+        return sendError(ws, 'ALREADY_REVEALED', 'Bid has already been revealed');
+      }
+
+      if (computeBidCommitment(auctionId, formattedBidder, amount, salt) !== commitment.commitment) {
+        return sendError(ws, 'COMMITMENT_MISMATCH', 'Amount and salt do not match the commitment');
+      }
+
+      const success = await revealSealedBid(auctionId, formattedBidder, amount, verification.request);
+      if (!success) {
+        return sendError(ws, 'REVEAL_FAILED', 'Failed to reveal bid');
+      }
+
+      const updatedAuction = getAuctionSession(auctionId);
+      if (updatedAuction) {
+        broadcastToAuction(auctionId, {
+          type: 'auction:bidRevealed',
+          auctionId,
+          bid: updatedAuction.bids[updatedAuction.bids.length - 1],
+          bidsTotal: updatedAuction.bids.length,
+          currentBidder: updatedAuction.currentBidder,
+          currentBid: updatedAuction.currentBid,
+          reserveMet: isReserveMet(updatedAuction),
+          revealsTotal: updatedAuction.commitments?.filter((entry) => entry.revealedAmount !== undefined).length ?? 0
+        });
+      }
+    });
+
   } catch (error) {
-    logger.error(`Error creating auction ${auctionId}:`, error);
-    return sendError(ws, 'AUCTION_CREATE_ERROR', error instanceof Error ? error.message : 'Failed to create auction');
+    logger.error(`Error revealing bid for auction ${auctionId}:`, error);
+    return sendError(ws, 'REVEAL_ERROR', error instanceof Error ? error.message : 'Failed to reveal bid');
   }
 }
 
 /**
- * Handles a new bid on an auction
+ * Handles a buyer accepting a Dutch auction's current price
  */
-async function handlePlaceBid(
-  ws: WebSocket, 
-  payload: PlaceBidPayload, 
-  { connections, sendError }: HandlerContext
+async function handleAcceptPrice(
+  ws: WebSocket,
+  payload: AcceptPricePayload,
+  { sendError }: HandlerContext
 ) {
+  // The price is checked as of when the acceptance arrived
+  const receivedAt = Date.now();
+
   if (!payload || typeof payload !== 'object') {
     return sendError(ws, 'INVALID_PAYLOAD', 'Invalid payload format');
   }
@@ -112,63 +947,79 @@ async function handlePlaceBid(
 
   try {
     // Parse and verify the signed request
-    const signedRequest = JSON.parse(request);
-    const [requestId, method, params] = signedRequest.req;
-
-    if (method !== 'place_bid' || !Array.isArray(params) || params.length !== 3) {
-      return sendError(ws, 'INVALID_REQUEST', 'Invalid bid request format');
+    const verification = verifySignedRequest(request, 'accept_price', 3);
+    if (!verification.ok) {
+      return sendError(ws, verification.code, verification.msg);
     }
 
-    const [bidAuctionId, bidder, bidAmount] = params;
+    const [acceptAuctionId, buyer, price] = verification.request.params as [string, string, string];
 
-    if (bidAuctionId !== auctionId) {
+    if (acceptAuctionId !== auctionId) {
       return sendError(ws, 'INVALID_REQUEST', 'Auction ID mismatch');
     }
 
-    // Check if auction exists
-    if (!hasAuctionSession(auctionId)) {
-      return sendError(ws, 'AUCTION_NOT_FOUND', 'Auction not found');
+    // Only the wallet behind the signing key may buy as itself
+    if (!isRequestIdentity(verification.request, buyer)) {
+      return sendError(ws, 'UNAUTHORIZED', 'Buyer does not match request signer');
     }
 
-    // Get current auction state
-    const auction = getAuctionSession(auctionId);
-    if (!auction) {
-      return sendError(ws, 'AUCTION_NOT_FOUND', 'Auction not found');
+    if (!isAmount(price)) {
+      return sendError(ws, 'INVALID_PAYLOAD', 'Price must be an integer amount in base units');
     }
 
-    // Validate bid amount is higher than current bid
-    if (BigInt(bidAmount) <= BigInt(auction.currentBid)) {
-      return sendError(ws, 'INVALID_BID', 'Bid must be higher than current bid');
-    }
+    // Acceptances are handled one at a time per auction, so only the first buyer gets the sale
+    await runForAuction(auctionId, async () => {
+      const auction = getAuctionSession(auctionId);
+      if (!auction) {
+        return sendError(ws, 'AUCTION_NOT_FOUND', 'Auction not found');
+      }
 
-    // Update auction with new bid
-    const success = await updateAuctionBid(auctionId, bidder, bidAmount);
-    
-    if (!success) {
-      return sendError(ws, 'BID_FAILED', 'Failed to place bid');
-    }
-
-    // Store bidder connection
-    connections.set(bidder, { ws, auctionId });
-
-    // Broadcast bid update to all connected clients
-    const updatedAuction = getAuctionSession(auctionId);
-    if (updatedAuction) {
-      wss.clients.forEach((client) => {
-        if (client.readyState === 1) {
-          client.send(JSON.stringify({
-            type: 'auction:bidPlaced',
-            auctionId,
-            currentBidder: updatedAuction.currentBidder,
-            currentBid: updatedAuction.currentBid
-          }));
-        }
+      if (auction.format !== 'dutch') {
+        return sendError(ws, 'INVALID_AUCTION_FORMAT', 'Only Dutch auctions take price acceptances');
+      }
+
+      if (ethers.getAddress(buyer) === auction.seller) {
+        return sendError(ws, 'UNAUTHORIZED', 'The seller cannot buy their own auction');
+      }
+
+      if (auction.status !== 'active') {
+        return sendError(ws, 'AUCTION_CLOSED', 'Auction has already been sold');
+      }
+
+      if (receivedAt >= auction.endTime) {
+        return sendError(ws, 'AUCTION_ENDED', 'Auction has ended');
+      }
+
+      // The signed price is what the buyer agreed to pay; it must still cover the asking price
+      const currentPrice = getDutchPrice(auction, receivedAt);
+      if (BigInt(price) < currentPrice) {
+        return sendError(ws, 'PRICE_MISMATCH', `Current price is ${currentPrice}`);
+      }
+
+      // The buyer pays the asking price from their ClearNode balance
+      const availableFunds = await getAvailableFunds(buyer, getAuctionAsset(auction), auctionId);
+      if (currentPrice > availableFunds) {
+        return sendError(ws, 'INSUFFICIENT_FUNDS', `Price exceeds available balance of ${availableFunds}`);
+      }
+
+      // Create the app session and settle it at the asking price
+      const success = await acceptDutchPrice(auctionId, buyer, currentPrice.toString(), verification.request);
+      if (!success) {
+        return sendError(ws, 'ACCEPT_FAILED', 'Failed to accept price');
+      }
+
+      // Broadcast the sale to the auction's subscribers, including the buyer
+      joinAuctionRoom(auctionId, ws);
+      broadcastToAuction(auctionId, {
+        type: 'auction:settled',
+        ...toSettlementResult(getAuctionSession(auctionId)!)
       });
-    }
+      finalizeAuctionOnChain(auctionId, broadcastFinalization);
+    });
 
   } catch (error) {
-    logger.error(`Error placing bid for auction ${auctionId}:`, error);
-    return sendError(ws, 'BID_ERROR', error instanceof Error ? error.message : 'Failed to place bid');
+    logger.error(`Error accepting price for auction ${auctionId}:`, error);
+    return sendError(ws, 'ACCEPT_ERROR', error instanceof Error ? error.message : 'Failed to accept price');
   }
 }
 
@@ -178,7 +1029,7 @@ async function handlePlaceBid(
 async function handleSettleAuction(
   ws: WebSocket, 
   payload: SettleAuctionPayload, 
-  { connections, sendError }: HandlerContext
+  { sendError }: HandlerContext
 ) {
   if (!payload || typeof payload !== 'object') {
     return sendError(ws, 'INVALID_PAYLOAD', 'Invalid payload format');
@@ -192,46 +1043,60 @@ async function handleSettleAuction(
 
   try {
     // Parse and verify the signed request
-    const signedRequest = JSON.parse(request);
-    const [requestId, method, params] = signedRequest.req;
-
-    if (method !== 'settle_auction' || !Array.isArray(params) || params.length !== 2) {
-      return sendError(ws, 'INVALID_REQUEST', 'Invalid settle request format');
+    const verification = verifySignedRequest(request, 'settle_auction', 2);
+    if (!verification.ok) {
+      return sendError(ws, verification.code, verification.msg);
     }
 
-    const [settleAuctionId, seller] = params;
+    const [settleAuctionId, seller] = verification.request.params as [string, string];
 
     if (settleAuctionId !== auctionId) {
       return sendError(ws, 'INVALID_REQUEST', 'Auction ID mismatch');
     }
 
-    // Get auction state
-    const auction = getAuctionSession(auctionId);
-    if (!auction) {
-      return sendError(ws, 'AUCTION_NOT_FOUND', 'Auction not found');
-    }
+    // Settlement waits for bids already in flight, and is checked against the state they leave
+    await runForAuction(auctionId, async () => {
+      // Get auction state
+      const auction = getAuctionSession(auctionId);
+      if (!auction) {
+        return sendError(ws, 'AUCTION_NOT_FOUND', 'Auction not found');
+      }
 
-    // Verify seller
-    if (seller !== auction.seller) {
-      return sendError(ws, 'UNAUTHORIZED', 'Only the seller can settle the auction');
-    }
+      // Verify seller against both the claimed address and the request signer
+      if (!isRequestIdentity(verification.request, seller) || verification.request.identity !== auction.seller) {
+        return sendError(ws, 'UNAUTHORIZED', 'Only the seller can settle the auction');
+      }
 
-    // Settle the auction
-    const success = await settleAuctionSession(auctionId);
-    if (!success) {
-      return sendError(ws, 'SETTLE_FAILED', 'Failed to settle auction');
-    }
+      // Sealed bids must get their full reveal phase before a winner is picked
+      if (isSealedFormat(auction.format)) {
+        return sendError(ws, 'INVALID_AUCTION_FORMAT', 'Sealed-bid auctions settle automatically after the reveal phase');
+      }
 
-    // Broadcast settlement to all connected clients
-    wss.clients.forEach((client) => {
-      if (client.readyState === 1) {
-        client.send(JSON.stringify({
-          type: 'auction:settled',
-          auctionId,
-          winner: auction.currentBidder,
-          finalPrice: auction.currentBid
-        }));
+      if (auction.format === 'dutch') {
+        return sendError(ws, 'INVALID_AUCTION_FORMAT', 'Dutch auctions settle when a buyer accepts the price');
+      }
+
+      if (auction.status !== 'active') {
+        return sendError(ws, 'AUCTION_CLOSED', 'Auction has already been settled');
       }
+
+      if (!auction.currentBidder) {
+        return sendError(ws, 'NO_BIDS', 'Auction has no bids to settle');
+      }
+
+      // Settle the auction
+      const success = await settleAuctionSession(auctionId);
+      if (!success) {
+        return sendError(ws, 'SETTLE_FAILED', 'Failed to settle auction');
+      }
+
+      // Broadcast settlement to the auction's subscribers, including the seller who settled it
+      joinAuctionRoom(auctionId, ws);
+      broadcastToAuction(auctionId, {
+        type: 'auction:settled',
+        ...toSettlementResult(getAuctionSession(auctionId)!)
+      });
+      finalizeAuctionOnChain(auctionId, broadcastFinalization);
     });
 
   } catch (error) {
@@ -240,19 +1105,91 @@ async function handleSettleAuction(
   }
 }
 
+/**
+ * Handles a seller withdrawing their auction
+ */
+async function handleCancelAuction(
+  ws: WebSocket,
+  payload: CancelAuctionPayload,
+  { sendError }: HandlerContext
+) {
+  if (!payload || typeof payload !== 'object') {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Invalid payload format');
+  }
+
+  const { auctionId, request } = payload;
+
+  if (!auctionId || !request) {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Auction ID and signed request are required');
+  }
+
+  try {
+    // Parse and verify the signed request
+    const verification = verifySignedRequest(request, 'cancel_auction', 2);
+    if (!verification.ok) {
+      return sendError(ws, verification.code, verification.msg);
+    }
+
+    const [cancelAuctionId, seller] = verification.request.params as [string, string];
+
+    if (cancelAuctionId !== auctionId) {
+      return sendError(ws, 'INVALID_REQUEST', 'Auction ID mismatch');
+    }
+
+    // Cancellation waits for bids already in flight, so it pays out every one of them
+    await runForAuction(auctionId, async () => {
+      const auction = getAuctionSession(auctionId);
+      if (!auction) {
+        return sendError(ws, 'AUCTION_NOT_FOUND', 'Auction not found');
+      }
+
+      // Verify seller against both the claimed address and the request signer
+      if (!isRequestIdentity(verification.request, seller) || verification.request.identity !== auction.seller) {
+        return sendError(ws, 'UNAUTHORIZED', 'Only the seller can cancel the auction');
+      }
+
+      if (auction.status !== 'active') {
+        return sendError(ws, 'AUCTION_CLOSED', 'Auction is no longer open');
+      }
+
+      if (!canCancelAuction(auction)) {
+        return sendError(ws, 'CANCEL_NOT_ALLOWED', 'Auction already has bids and no cancellation penalty');
+      }
+
+      const success = await cancelAuctionSession(auctionId);
+      joinAuctionRoom(auctionId, ws);
+      if (!success) {
+        return sendError(ws, 'CANCEL_PENDING', 'Cancellation is not confirmed yet and will be retried');
+      }
+
+      broadcastAuctionEnded(auction);
+    });
+
+  } catch (error) {
+    logger.error(`Error cancelling auction ${auctionId}:`, error);
+    return sendError(ws, 'CANCEL_ERROR', error instanceof Error ? error.message : 'Failed to cancel auction');
+  }
+}
+
 /**
  * Handles getting auction state
  */
 async function handleGetAuctionState(
   ws: WebSocket, 
-  payload: { auctionId: string; request: string }, 
+  payload: GetAuctionStatePayload, 
   { sendError }: HandlerContext
 ) {
   if (!payload || typeof payload !== 'object') {
     return sendError(ws, 'INVALID_PAYLOAD', 'Invalid payload format');
   }
 
-  const { auctionId, request } = payload;
+  const { auctionId, request, page } = payload;
+
+  const bidsOffset = page?.offset ?? 0;
+  const bidsLimit = page?.limit ?? DEFAULT_BID_PAGE_SIZE;
+  if (!Number.isInteger(bidsOffset) || bidsOffset < 0 || !Number.isInteger(bidsLimit) || bidsLimit < 1 || bidsLimit > MAX_BID_PAGE_SIZE) {
+    return sendError(ws, 'INVALID_PAYLOAD', `Bid page must have a non-negative offset and a limit between 1 and ${MAX_BID_PAGE_SIZE}`);
+  }
 
   if (!auctionId || !request) {
     return sendError(ws, 'INVALID_PAYLOAD', 'Auction ID and signed request are required');
@@ -260,14 +1197,12 @@ async function handleGetAuctionState(
 
   try {
     // Parse and verify the signed request
-    const signedRequest = JSON.parse(request);
-    const [requestId, method, params] = signedRequest.req;
-
-    if (method !== 'get_auction_state' || !Array.isArray(params) || params.length !== 1) {
-      return sendError(ws, 'INVALID_REQUEST', 'Invalid get state request format');
+    const verification = verifySignedRequest(request, 'get_auction_state', 1);
+    if (!verification.ok) {
+      return sendError(ws, verification.code, verification.msg);
     }
 
-    const [stateAuctionId] = params;
+    const [stateAuctionId] = verification.request.params as [string];
 
     if (stateAuctionId !== auctionId) {
       return sendError(ws, 'INVALID_REQUEST', 'Auction ID mismatch');
@@ -280,19 +1215,7 @@ async function handleGetAuctionState(
     }
 
     // Send auction state to client
-    ws.send(JSON.stringify({
-      type: 'auction:state',
-      auctionId,
-      title: "Limited Edition Digital Art Collection",
-      description: "A curated collection of unique digital artworks",
-      startingPrice: auction.currentBid,
-      currentBid: auction.currentBid,
-      currentBidder: auction.currentBidder,
-      endTime: new Date(auction.createdAt + 24 * 60 * 60 * 1000).toISOString(), // 24 hours from creation
-      seller: auction.seller,
-      status: 'active',
-      bids: [] // TODO: Implement bid history
-    }));
+    ws.send(JSON.stringify(buildAuctionState(auction, bidsOffset, bidsLimit)));
 
   } catch (error) {
     logger.error(`Error getting auction state for auction ${auctionId}:`, error);
@@ -300,6 +1223,119 @@ async function handleGetAuctionState(
   }
 }
 
+/**
+ * Handles listing auctions for the catalog
+ */
+async function handleListAuctions(
+  ws: WebSocket,
+  payload: ListAuctionsPayload,
+  { sendError }: HandlerContext
+) {
+  const { filters = {}, page } = payload || {};
+
+  if (typeof filters !== 'object') {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Invalid filters format');
+  }
+
+  if (filters.status !== undefined && !AUCTION_STATUSES.includes(filters.status)) {
+    return sendError(ws, 'INVALID_PAYLOAD', `Status filter must be one of ${AUCTION_STATUSES.join(', ')}`);
+  }
+
+  if (filters.seller !== undefined && (typeof filters.seller !== 'string' || !ethers.isAddress(filters.seller))) {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Seller filter must be an address');
+  }
+
+  if (filters.endingWithin !== undefined && (!Number.isInteger(filters.endingWithin) || filters.endingWithin <= 0)) {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Ending soon filter must be a positive number of seconds');
+  }
+
+  const offset = page?.offset ?? 0;
+  const limit = page?.limit ?? DEFAULT_LIST_PAGE_SIZE;
+  if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_PAGE_SIZE) {
+    return sendError(ws, 'INVALID_PAYLOAD', `Page must have a non-negative offset and a limit between 1 and ${MAX_LIST_PAGE_SIZE}`);
+  }
+
+  const { auctions, total } = listAuctions({
+    ...filters,
+    seller: filters.seller ? ethers.getAddress(filters.seller) : undefined
+  }, offset, limit);
+
+  ws.send(JSON.stringify({
+    type: 'auction:list',
+    auctions: auctions.map(toAuctionSummary),
+    total,
+    offset,
+    limit
+  }));
+}
+
+/**
+ * Handles listing the assets sellers can settle auctions in
+ */
+async function handleListAssets(
+  ws: WebSocket,
+  _payload: unknown,
+  { sendError }: HandlerContext
+) {
+  try {
+    ws.send(JSON.stringify({
+      type: 'auction:assets',
+      assets: await getSupportedAssets()
+    }));
+  } catch (error) {
+    logger.error('Error listing supported assets:', error);
+    return sendError(ws, 'ASSETS_ERROR', error instanceof Error ? error.message : 'Failed to list assets');
+  }
+}
+
+/**
+ * Handles following an auction's live updates
+ */
+async function handleSubscribe(
+  ws: WebSocket,
+  payload: SubscribePayload,
+  { sendError }: HandlerContext
+) {
+  if (!payload || typeof payload !== 'object' || !payload.auctionId) {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Auction ID is required');
+  }
+
+  const auction = getAuctionSession(payload.auctionId);
+  if (!auction) {
+    return sendError(ws, 'AUCTION_NOT_FOUND', 'Auction not found');
+  }
+
+  joinAuctionRoom(payload.auctionId, ws);
+
+  ws.send(JSON.stringify({
+    type: 'auction:subscribed',
+    auctionId: payload.auctionId
+  }));
+
+  // Start the subscriber off with a snapshot of the auction
+  ws.send(JSON.stringify(buildAuctionState(auction, 0, DEFAULT_BID_PAGE_SIZE)));
+}
+
+/**
+ * Handles no longer following an auction
+ */
+async function handleUnsubscribe(
+  ws: WebSocket,
+  payload: SubscribePayload,
+  { sendError }: HandlerContext
+) {
+  if (!payload || typeof payload !== 'object' || !payload.auctionId) {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Auction ID is required');
+  }
+
+  leaveAuctionRoom(payload.auctionId, ws);
+
+  ws.send(JSON.stringify({
+    type: 'auction:unsubscribed',
+    auctionId: payload.auctionId
+  }));
+}
+
 // Function to broadcast online users count to all clients
 const broadcastOnlineUsersCount = () => {
   const message = JSON.stringify({
@@ -316,15 +1352,113 @@ const broadcastOnlineUsersCount = () => {
   logger.ws(`Broadcasting online users count: ${onlineUsersCount}`);
 };
 
+// Broadcast the outcome of an auction once its settlement or cancellation is confirmed
+const broadcastAuctionEnded = (auction: AuctionSession) => {
+  if (auction.outcome === 'cancelled') {
+    // Bidders share the seller's penalty once anyone has bid
+    broadcastToAuction(auction.auctionId, {
+      type: 'auction:cancelled',
+      auctionId: auction.auctionId,
+      penalty: getCancellationPayout(auction)
+    });
+    logger.game(`Auction ${auction.auctionId} cancelled by the seller`);
+    return;
+  }
+
+  const result = toSettlementResult(auction);
+  broadcastToAuction(auction.auctionId, {
+    type: 'auction:ended',
+    ...result,
+    endTime: new Date(auction.endTime).toISOString()
+  });
+
+  logger.game(`Auction ${auction.auctionId} ended${result.sold ? ` with winner ${result.winner} paying ${result.finalPrice}` : ' unsold'}${result.winners.length > 1 ? ` and ${result.winners.length - 1} more winners` : ''}`);
+};
+
+// Broadcast an auction's on-chain finalization as it is submitted and confirmed
+const broadcastFinalization = (auction: AuctionSession) => {
+  broadcastToAuction(auction.auctionId, {
+    type: 'auction:settled',
+    ...toSettlementResult(auction)
+  });
+};
+
+// Broadcast the outcome of an auction the server ended, and finalize any sale on-chain
+const handleAuctionEnded = (auction: AuctionSession) => {
+  broadcastAuctionEnded(auction);
+  finalizeAuctionOnChain(auction.auctionId, broadcastFinalization);
+};
+
+// Announce that a sealed-bid auction has closed for commitments and is taking reveals
+const broadcastRevealStarted = (auction: AuctionSession) => {
+  broadcastToAuction(auction.auctionId, {
+    type: 'auction:revealing',
+    auctionId: auction.auctionId,
+    revealEndTime: new Date(auction.revealEndTime!).toISOString(),
+    commitmentsTotal: auction.commitments?.length ?? 0
+  });
+};
+
+// Broadcast a visible bid, manual or placed by a proxy, to the auction's subscribers
+const broadcastBidPlaced = (auction: AuctionSession, bid: BidRecord, previousEndTime: number) => {
+  broadcastToAuction(auction.auctionId, {
+    type: 'auction:bidPlaced',
+    auctionId: auction.auctionId,
+    currentBidder: auction.currentBidder,
+    currentBid: auction.currentBid,
+    bid,
+    bidsTotal: auction.bids.length,
+    // May have moved if the bid triggered a soft-close extension
+    endTime: new Date(auction.endTime).toISOString(),
+    extended: auction.endTime !== previousEndTime,
+    reserveMet: isReserveMet(auction),
+    minNextBid: getMinimumNextBid(auction).toString()
+  });
+};
+
+// Let maximum bids answer the current bid and broadcast the bids they place
+const placeProxyBids = async (auctionId: string) => {
+  const previousEndTime = getAuctionSession(auctionId)?.endTime ?? 0;
+  const placed = await runProxyBids(auctionId);
+  const auction = getAuctionSession(auctionId);
+  if (!auction) {
+    return;
+  }
+
+  // Each bid is announced with the auction state after all of them, which the last one matches
+  placed.forEach((bid) => broadcastBidPlaced(auction, bid, previousEndTime));
+};
+
+// Announce a Dutch auction's new, lower price
+const broadcastPriceTick = (auction: AuctionSession, price: bigint) => {
+  broadcastToAuction(auction.auctionId, {
+    type: 'auction:priceTick',
+    auctionId: auction.auctionId,
+    currentPrice: price.toString(),
+    timestamp: new Date().toISOString()
+  });
+};
+
 // Create context object to share between route handlers
 const context: HandlerContext = {
-  connections,
   sendError: (ws: WebSocket, code: string, msg: string) => sendError(ws, code, msg)
 };
 
 interface WebSocketMessage {
   type: string;
-  payload: CreateAuctionPayload | PlaceBidPayload | SettleAuctionPayload;
+  payload:
+    | CreateAuctionPayload
+    | PlaceBidPayload
+    | PlaceMaxBidPayload
+    | PlaceUnitBidPayload
+    | CommitBidPayload
+    | RevealBidPayload
+    | AcceptPricePayload
+    | SettleAuctionPayload
+    | GetAuctionStatePayload
+    | ListAuctionsPayload
+    | SubscribePayload
+    | AuthorizeSessionPayload;
 }
 
 wss.on('connection', (ws: WebSocket) => {
@@ -348,17 +1482,50 @@ wss.on('connection', (ws: WebSocket) => {
     // Process message based on type
     try {
       switch (data.type) {
+        case 'auction:authorize':
+          await handleAuthorizeSession(ws, data.payload as AuthorizeSessionPayload, context);
+          break;
         case 'auction:create':
           await handleCreateAuction(ws, data.payload as CreateAuctionPayload, context);
           break;
         case 'auction:bid':
           await handlePlaceBid(ws, data.payload as PlaceBidPayload, context);
           break;
+        case 'auction:maxBid':
+          await handlePlaceMaxBid(ws, data.payload as PlaceMaxBidPayload, context);
+          break;
+        case 'auction:unitBid':
+          await handlePlaceUnitBid(ws, data.payload as PlaceUnitBidPayload, context);
+          break;
+        case 'auction:commit':
+          await handleCommitBid(ws, data.payload as CommitBidPayload, context);
+          break;
+        case 'auction:reveal':
+          await handleRevealBid(ws, data.payload as RevealBidPayload, context);
+          break;
+        case 'auction:accept':
+          await handleAcceptPrice(ws, data.payload as AcceptPricePayload, context);
+          break;
         case 'auction:settle':
           await handleSettleAuction(ws, data.payload as SettleAuctionPayload, context);
           break;
+        case 'auction:cancel':
+          await handleCancelAuction(ws, data.payload as CancelAuctionPayload, context);
+          break;
         case 'auction:getState':
-          await handleGetAuctionState(ws, data.payload as { auctionId: string; request: string }, context);
+          await handleGetAuctionState(ws, data.payload as GetAuctionStatePayload, context);
+          break;
+        case 'auction:list':
+          await handleListAuctions(ws, data.payload as ListAuctionsPayload, context);
+          break;
+        case 'auction:assets':
+          await handleListAssets(ws, data.payload, context);
+          break;
+        case 'auction:subscribe':
+          await handleSubscribe(ws, data.payload as SubscribePayload, context);
+          break;
+        case 'auction:unsubscribe':
+          await handleUnsubscribe(ws, data.payload as SubscribePayload, context);
           break;
         default:
           logger.ws(`Invalid message type: ${data.type}`);
@@ -372,13 +1539,8 @@ wss.on('connection', (ws: WebSocket) => {
 
   // Handle disconnection
   ws.on('close', () => {
-    // Remove the connection from our tracking
-    for (const [address, connection] of connections.entries()) {
-      if (connection.ws === ws) {
-        connections.delete(address);
-        break;
-      }
-    }
+    // Stop delivering auction events to this socket
+    leaveAllAuctionRooms(ws);
     
     // Decrement online users count and broadcast to all clients
     onlineUsersCount = Math.max(0, onlineUsersCount - 1);
@@ -391,10 +1553,40 @@ wss.on('connection', (ws: WebSocket) => {
 // Initialize Nitrolite client when server starts
 async function initializeNitroliteServices() {
   try {
+    // Restore persisted auctions before touching the ClearNode
+    const restoredCount = restoreAuctionSessions();
+    logger.system(`Restored ${restoredCount} auction sessions from storage`);
+
     logger.nitro('Initializing Nitrolite services...');
     await initializeRPCClient();
     logger.nitro('Nitrolite RPC client initialized successfully');
 
+    // Open and fund the server's channel if it has none, then keep it topped up
+    try {
+      await ensureServerChannel();
+      startChannelMonitor();
+    } catch (error) {
+      logger.error('Failed to set up the server channel:', error);
+    }
+
+    // Confirm settlements the ClearNode completed while the server was down
+    const reconciled = await reconcileSettlements();
+    reconciled.forEach(handleAuctionEnded);
+    if (reconciled.length > 0) {
+      logger.system(`Reconciled ${reconciled.length} interrupted settlements`);
+    }
+
+    // Without an attestation or a channel close, sales that pay the server nothing have no on-chain step
+    if (FINALIZATION_MODE === 'resize' && !ATTESTATION_ADDRESS) {
+      logger.warn('ATTESTATION_ADDRESS is not set, so sales the server takes no fee from are not finalized on-chain');
+    }
+
+    // Pick up on-chain finalizations that were in flight
+    const resumedCount = resumeFinalizations(broadcastFinalization);
+    if (resumedCount > 0) {
+      logger.system(`Resumed ${resumedCount} on-chain finalizations`);
+    }
+
     // Create default auction
     const defaultAuctionId = await createDefaultAuction();
     logger.system(`Created default auction with ID: ${defaultAuctionId}`);
@@ -412,6 +1604,13 @@ logger.system(`WebSocket server starting on port ${port}`);
 // Initialize Nitrolite client
 initializeNitroliteServices().then(() => {
   logger.system('Server initialization complete');
+
+  // Close auctions as they expire, including any restored past their end time
+  startAuctionScheduler({
+    onAuctionEnded: handleAuctionEnded,
+    onRevealStarted: broadcastRevealStarted,
+    onPriceTick: broadcastPriceTick
+  });
 }).catch(error => {
   logger.error('Server initialization failed:', error);
 });
@@ -6,8 +6,27 @@ import { createAppSessionMessage, createCloseAppSessionMessage, type CreateAppSe
 import { ethers } from 'ethers';
 import dotenv from 'dotenv';
 import logger from '../utils/logger.js';
-import { getRPCClient } from './nitroliteRPC.js';
-import { Auction } from '../types.js';
+import { getResponseList, getRPCClient } from './nitroliteRPC.js';
+import { createAuctionRepository, type AuctionRepository } from './auctionRepository.js';
+import { buildSealedEscrowAllocations, buildSealedSettlement, getRevealedCommitments, isSealedFormat } from './sealedBids.js';
+import { allocateUnits, buildUniformEscrowAllocations, buildUniformSettlement } from './uniformPrice.js';
+import { planProxyBids } from './proxyBids.js';
+import { buildEscrowDefinition, getEscrowParticipants, recordEscrow, releaseAllEscrow } from './escrow.js';
+import { DEFAULT_ASSET, getAuctionAsset } from './assets.js';
+import { applyFeeSplits } from './feeSplits.js';
+import { getAvailableFunds } from './ledgerBalances.js';
+import { buildCancellationAllocations, getSellerBond, returnSellerBond } from './cancellation.js';
+import { PLATFORM_FEE_BPS } from '../config/fees.js';
+import {
+  AuctionOptions,
+  AuctionOutcome,
+  AuctionSession,
+  AuctionStatus,
+  BidRecord,
+  OnChainFinalization,
+  SettlementAllocation,
+  SoftCloseRule
+} from '../types.js';
 
 // Load environment variables
 dotenv.config();
@@ -17,40 +36,251 @@ interface AppSessionResponse {
   status: string;
 }
 
-// Map to store auction sessions
-const auctionSessions = new Map<string, {
-  appId: `0x${string}`;
-  seller: string;
-  currentBidder: string | null;
-  serverAddress: string;
-  currentBid: string;
-  createdAt: number;
-}>();
+// Repository that stores auction sessions
+let repository: AuctionRepository = createAuctionRepository();
+
+// Tail of each auction's queue of bids, settlements and cancellations
+const auctionQueues = new Map<string, Promise<void>>();
+
+// Listing shown for auctions created without one
+export const DEFAULT_AUCTION_TITLE = 'Limited Edition Digital Art Collection';
+export const DEFAULT_AUCTION_DESCRIPTION = 'A curated collection of unique digital artworks';
+
+// Default auction duration in seconds
+export const DEFAULT_AUCTION_DURATION = 24 * 60 * 60;
+
+// Bid history page sizes for auction state responses
+export const DEFAULT_BID_PAGE_SIZE = 50;
+export const MAX_BID_PAGE_SIZE = 200;
 
 // Create a mock auction session for development
 const mockAuctionId = 'default-auction-0x1';
+const mockAppId = '0x1234567890123456789012345678901234567890' as `0x${string}`;
 const mockServerAddress = '0x0fabe24849FF9228e9Bc68e01279eDe6339B3035';
 
-// Initialize mock auction if running in mock mode
-if (process.env.NODE_ENV !== 'production') {
-  auctionSessions.set(mockAuctionId, {
-    appId: '0x1234567890123456789012345678901234567890' as `0x${string}`,
-    seller: mockServerAddress,
-    currentBidder: null,
-    serverAddress: mockServerAddress,
-    currentBid: '1000000', // 1 USDC
-    createdAt: Date.now()
+/**
+ * Replace the auction repository (e.g. with an in-memory one for tests)
+ * @param {AuctionRepository} auctionRepository - Repository to use
+ */
+export function setAuctionRepository(auctionRepository: AuctionRepository): void {
+  repository = auctionRepository;
+}
+
+/**
+ * Run a task once every task queued before it for the same auction has finished
+ * Bids, settlements and cancellations are checked and applied across several awaits, so handling
+ * them one at a time per auction keeps each one from being checked against state an earlier one
+ * is about to change.
+ * @param {string} auctionId - Auction ID
+ * @param {() => Promise<T>} task - Task to run
+ * @returns {Promise<T>} The task's result
+ */
+export function runForAuction<T>(auctionId: string, task: () => Promise<T>): Promise<T> {
+  const result = (auctionQueues.get(auctionId) ?? Promise.resolve()).then(task);
+  const tail = result.then(() => undefined, () => undefined);
+  auctionQueues.set(auctionId, tail);
+  tail.then(() => {
+    if (auctionQueues.get(auctionId) === tail) {
+      auctionQueues.delete(auctionId);
+    }
   });
+  return result;
+}
+
+/**
+ * Rehydrate auction sessions from the repository
+ * @returns {number} Number of auction sessions restored
+ */
+export function restoreAuctionSessions(): number {
+  const sessions = repository.load();
+
+  // Initialize mock auction if running in mock mode; it stays out of the store until a change is saved
+  if (process.env.NODE_ENV !== 'production' && !repository.get(mockAuctionId)) {
+    const createdAt = Date.now();
+    repository.seed({
+      auctionId: mockAuctionId,
+      title: DEFAULT_AUCTION_TITLE,
+      description: DEFAULT_AUCTION_DESCRIPTION,
+      appId: mockAppId,
+      seller: mockServerAddress,
+      currentBidder: null,
+      serverAddress: mockServerAddress,
+      startingPrice: '1000000', // 1 USDC
+      currentBid: '1000000',
+      createdAt,
+      endTime: createdAt + DEFAULT_AUCTION_DURATION * 1000,
+      originalEndTime: createdAt + DEFAULT_AUCTION_DURATION * 1000,
+      status: 'active',
+      statusHistory: [{ status: 'active', timestamp: createdAt }],
+      bids: []
+    });
+  }
+
+  return sessions.length;
+}
+
+/**
+ * Move an auction to a new status and record the transition
+ * @param {AuctionSession} session - Auction session to update
+ * @param {AuctionStatus} status - New status
+ */
+function setAuctionStatus(session: AuctionSession, status: AuctionStatus): void {
+  session.status = status;
+  session.statusHistory.push({ status, timestamp: Date.now() });
+}
+
+/**
+ * Extend an auction's end time when a bid lands inside its soft-close window
+ * @param {AuctionSession} session - Auction session receiving the bid
+ * @param {number} bidTime - Time the bid was accepted in milliseconds
+ * @returns {boolean} Whether the end time was extended
+ */
+function applySoftClose(session: AuctionSession, bidTime: number): boolean {
+  const rule = session.softClose;
+  if (!rule || session.endTime - bidTime > rule.window * 1000) {
+    return false;
+  }
+
+  const latestEndTime = session.originalEndTime + rule.maxExtension * 1000;
+  const endTime = Math.min(session.endTime + rule.extension * 1000, latestEndTime);
+  if (endTime <= session.endTime) {
+    return false;
+  }
+
+  session.endTime = endTime;
+  logger.game(`Auction ${session.auctionId} extended to ${new Date(endTime).toISOString()} by a late bid`);
+  return true;
+}
+
+/**
+ * Check that a soft-close rule has positive window and extension and a non-negative cap
+ * @param {SoftCloseRule} rule - Soft-close rule
+ * @returns {boolean} Whether the rule is valid
+ */
+export function isValidSoftCloseRule(rule: SoftCloseRule): boolean {
+  return !!rule
+    && Number.isInteger(rule.window) && rule.window > 0
+    && Number.isInteger(rule.extension) && rule.extension > 0
+    && Number.isInteger(rule.maxExtension) && rule.maxExtension >= 0;
+}
+
+/**
+ * Check whether an auction's top bid meets its reserve price
+ * @param {AuctionSession} session - Auction session
+ * @returns {boolean} True if there is a top bid at or above the reserve (or no reserve)
+ */
+export function isReserveMet(session: AuctionSession): boolean {
+  if (!session.reservePrice) {
+    return true;
+  }
+  return !!session.currentBidder && BigInt(session.currentBid) >= BigInt(session.reservePrice);
+}
+
+/**
+ * Build the final allocations for closing an auction's app session
+ * If there is no bid or the reserve was not met, every participant keeps their allocation.
+ * @param {AuctionSession} session - Auction session
+ * @returns {{ outcome: AuctionOutcome, finalPrice: string | null, salePrice: string, allocations: Array }} Settlement outcome, price paid, sale total and allocations
+ */
+function buildSettlementAllocations(session: AuctionSession) {
+  const asset = getAuctionAsset(session).symbol;
+
+  if (isSealedFormat(session.format)) {
+    const { outcome, finalPrice, salePrice, allocations } = buildSealedSettlement(session, asset);
+    return { outcome, finalPrice, salePrice, allocations };
+  }
+
+  if (session.format === 'uniform') {
+    const { outcome, finalPrice, salePrice, allocations } = buildUniformSettlement(session, asset);
+    return { outcome, finalPrice, salePrice, allocations };
+  }
+
+  const sold = !!session.currentBidder && isReserveMet(session);
+  const allocations = [
+    {
+      participant: session.seller as `0x${string}`,
+      asset,
+      // Seller receives winning bid, or keeps nothing if unsold
+      amount: sold ? session.currentBid : '0',
+    }
+  ];
+
+  if (session.currentBidder) {
+    allocations.push({
+      participant: session.currentBidder as `0x${string}`,
+      asset,
+      // Bidder's funds are transferred to seller, or returned if unsold
+      amount: sold ? '0' : session.currentBid,
+    });
+  }
+
+  // Outbid bidders are still session participants, with nothing left to them
+  getEscrowParticipants(session)
+    .filter((participant) => participant !== session.currentBidder)
+    .forEach((participant) => {
+      allocations.push({ participant: participant as `0x${string}`, asset, amount: '0' });
+    });
+
+  const outcome: AuctionOutcome = sold ? 'sold' : 'unsold';
+  return { outcome, finalPrice: sold ? session.currentBid : null, salePrice: sold ? session.currentBid : '0', allocations };
+}
+
+/**
+ * Open an app session on the ClearNode
+ * @param {string} seller - Seller's address
+ * @param {string[]} bidders - Bidders locking funds from the start
+ * @param {Array} allocations - Initial allocations
+ * @returns {Promise<`0x${string}`>} The app session ID
+ */
+async function openAppSession(
+  seller: string,
+  bidders: string[],
+  allocations: CreateAppSessionRequest['allocations']
+): Promise<`0x${string}`> {
+  const rpcClient = await getRPCClient();
+  if (!rpcClient) {
+    throw new Error('RPC client not initialized');
+  }
+
+  // Create app definition; the seller has control for managing bids
+  const appDefinition = {
+    protocol: "app_aura_nitrolite_v0",
+    ...buildEscrowDefinition(seller, bidders),
+    challenge: 0,
+    nonce: Date.now(),
+  };
+
+  const appSessionData: CreateAppSessionRequest[] = [{
+    definition: appDefinition,
+    allocations
+  }];
+
+  // Create and send the request
+  const requestId = Date.now();
+  const response = await rpcClient.sendRequest('create_app_session', [appSessionData, requestId]) as AppSessionResponse;
+
+  if (!response?.app_session_id) {
+    throw new Error('Failed to get app ID from response');
+  }
+
+  return response.app_session_id;
 }
 
 /**
  * Create an app session for a new auction
+ * Dutch auctions are stored without one until a buyer accepts the price.
  * @param {string} auctionId - Auction ID
  * @param {string} seller - Seller's address
  * @param {string} startingPrice - Initial auction price
- * @returns {Promise<string>} The app session ID
+ * @param {AuctionOptions} options - Optional auction settings
+ * @returns {Promise<string | null>} The app session ID, or null for Dutch auctions
  */
-export async function createAuctionSession(auctionId: string, seller: string, startingPrice: string): Promise<string> {
+export async function createAuctionSession(
+  auctionId: string,
+  seller: string,
+  startingPrice: string,
+  options: AuctionOptions = {}
+): Promise<string | null> {
   try {
     logger.nitro(`Creating auction session for auction ${auctionId}`);
     
@@ -62,51 +292,58 @@ export async function createAuctionSession(auctionId: string, seller: string, st
     
     // Format seller address to proper checksum format
     const formattedSeller = ethers.getAddress(seller) as `0x${string}`;
-    
-    // Create app definition
-    const appDefinition = {
-      protocol: "app_aura_nitrolite_v0",
-      participants: [formattedSeller],  // Start with just the seller
-      weights: [100],  // Seller has control for managing bids
-      quorum: 100,
-      challenge: 0,
-      nonce: Date.now(),
-    };
-    
-    const appSessionData: CreateAppSessionRequest[] = [{
-      definition: appDefinition,
-      allocations: [
-        {
-          participant: formattedSeller,
-          asset: 'usdc',
-          amount: '0', // Seller starts with 0 as they're selling
-        }
-      ]
-    }];
-    
-    // Create and send the request
-    const requestId = Date.now();
-    const response = await rpcClient.sendRequest('create_app_session', [appSessionData, requestId]) as AppSessionResponse;
-    
-    if (!response?.app_session_id) {
-      throw new Error('Failed to get app ID from response');
-    }
+    const format = options.format ?? 'english';
+    const asset = options.asset ?? DEFAULT_ASSET;
+
+    // Start with just the seller, who only escrows their cancellation penalty, if any, as they're selling
+    const appId = format === 'dutch'
+      ? undefined
+      : await openAppSession(formattedSeller, [], [{ participant: formattedSeller, asset: asset.symbol, amount: options.cancellationPenalty ?? '0' }]);
     
     // Get server address from RPC client's wallet
     const serverAddress = await rpcClient.getWalletClient().account.address;
     
     // Store the auction session
-    auctionSessions.set(auctionId, {
-      appId: response.app_session_id,
+    const createdAt = Date.now();
+    const endTime = createdAt + (options.duration ?? DEFAULT_AUCTION_DURATION) * 1000;
+    repository.save({
+      auctionId,
+      title: options.title || DEFAULT_AUCTION_TITLE,
+      description: options.description || DEFAULT_AUCTION_DESCRIPTION,
+      appId,
       seller: formattedSeller,
+      format,
+      asset,
       currentBidder: null,
       serverAddress,
+      startingPrice,
       currentBid: startingPrice,
-      createdAt: Date.now()
+      createdAt,
+      endTime,
+      originalEndTime: endTime,
+      softClose: options.softClose,
+      reservePrice: options.reservePrice,
+      incrementPolicy: options.incrementPolicy,
+      sealedBid: options.sealedBid,
+      dutchSchedule: options.dutchSchedule,
+      commitments: isSealedFormat(format) ? [] : undefined,
+      units: options.units,
+      unitBids: format === 'uniform' ? [] : undefined,
+      // The fee is fixed when the auction is created, so later config changes do not affect it
+      platformFeeBps: PLATFORM_FEE_BPS,
+      cancellationPenalty: options.cancellationPenalty,
+      royalties: options.royalties?.map((split) => ({ ...split, recipient: ethers.getAddress(split.recipient) })),
+      status: 'active',
+      statusHistory: [{ status: 'active', timestamp: createdAt }],
+      bids: []
     });
     
-    logger.nitro(`Created auction session with ID ${response.app_session_id} for auction ${auctionId}`);
-    return response.app_session_id;
+    if (appId) {
+      logger.nitro(`Created auction session with ID ${appId} for auction ${auctionId}`);
+    } else {
+      logger.nitro(`Created Dutch auction ${auctionId}, app session opens on acceptance`);
+    }
+    return appId ?? null;
     
   } catch (error) {
     logger.error(`Error creating auction session for auction ${auctionId}:`, error);
@@ -118,12 +355,20 @@ export async function createAuctionSession(auctionId: string, seller: string, st
  * Update auction session with a new bid
  * @param {string} auctionId - Auction ID
  * @param {string} bidder - Bidder's address
- * @param {string} bidAmount - Bid amount in USDC
+ * @param {string} bidAmount - Bid amount in the auction asset's base units
+ * @param {{ requestId: number, signature: string }} bidRequest - Signed request that placed the bid
+ * @param {boolean} proxy - Whether the server placed the bid for the bidder's maximum
  * @returns {Promise<boolean>} Success status
  */
-export async function updateAuctionBid(auctionId: string, bidder: string, bidAmount: string): Promise<boolean> {
+export async function updateAuctionBid(
+  auctionId: string,
+  bidder: string,
+  bidAmount: string,
+  bidRequest: { requestId: number; signature: string },
+  proxy: boolean = false
+): Promise<boolean> {
   try {
-    const auctionSession = auctionSessions.get(auctionId);
+    const auctionSession = repository.get(auctionId);
     if (!auctionSession) {
       throw new Error(`No auction session found for auction ${auctionId}`);
     }
@@ -133,35 +378,80 @@ export async function updateAuctionBid(auctionId: string, bidder: string, bidAmo
       throw new Error('RPC client not initialized');
     }
 
+    // The auction may have closed while the bid was being checked
+    if (auctionSession.status !== 'active') {
+      logger.warn(`Auction ${auctionId} closed before the bid from ${bidder} was placed`);
+      return false;
+    }
+
     const formattedBidder = ethers.getAddress(bidder) as `0x${string}`;
+    const previousLeader = auctionSession.currentBidder;
+    const asset = getAuctionAsset(auctionSession).symbol;
+
+    const allocations = [
+      {
+        participant: auctionSession.seller as `0x${string}`,
+        asset,
+        amount: getSellerBond(auctionSession), // Seller only holds their cancellation penalty during bidding
+      },
+      {
+        participant: formattedBidder,
+        asset,
+        amount: bidAmount, // New bid amount
+      }
+    ];
 
-    // Update app session with new bidder
+    // Every other bidder with an escrow entry holds nothing, which releases the outbid leader's
+    // funds back to them in the same state update
+    const outbid = new Set(getEscrowParticipants(auctionSession));
+    if (previousLeader) {
+      outbid.add(previousLeader);
+    }
+    outbid.delete(formattedBidder);
+    outbid.forEach((participant) => {
+      allocations.push({
+        participant: participant as `0x${string}`,
+        asset,
+        amount: '0',
+      });
+    });
+
+    // The definition lists the same bidders as the allocations; only the new leader has funds locked
+    const bidders = allocations
+      .filter((allocation) => allocation.participant !== auctionSession.seller)
+      .map((allocation) => allocation.participant);
     const updateRequest = {
       app_session_id: auctionSession.appId,
-      participants: [auctionSession.seller, formattedBidder],
-      allocations: [
-        {
-          participant: auctionSession.seller as `0x${string}`,
-          asset: 'usdc',
-          amount: '0', // Seller still has 0 during bidding
-        },
-        {
-          participant: formattedBidder,
-          asset: 'usdc',
-          amount: bidAmount, // New bid amount
-        }
-      ]
+      ...buildEscrowDefinition(auctionSession.seller, bidders),
+      allocations
     };
 
     // Send update request
     const requestId = Date.now();
     const response = await rpcClient.sendRequest('update_app_session', [updateRequest, requestId]);
-    
+
+    // A settlement journaled while the update was in flight closes the session with its own
+    // allocations, so the bid must not be recorded against it
+    if (auctionSession.status !== 'active' || auctionSession.settlement) {
+      logger.warn(`Auction ${auctionId} closed while the bid from ${formattedBidder} was being placed, dropping it`);
+      return false;
+    }
+
     if (response) {
       // Update local session state
       auctionSession.currentBidder = formattedBidder;
       auctionSession.currentBid = bidAmount;
-      auctionSessions.set(auctionId, auctionSession);
+      auctionSession.bids.push({
+        bidder: formattedBidder,
+        amount: bidAmount,
+        timestamp: Date.now(),
+        requestId: bidRequest.requestId,
+        signature: bidRequest.signature,
+        ...(proxy && { proxy })
+      });
+      recordEscrow(auctionSession, allocations, Date.now());
+      applySoftClose(auctionSession, Date.now());
+      repository.save(auctionSession);
       
       logger.nitro(`Updated auction session ${auctionSession.appId} with new bid from ${formattedBidder}`);
       return true;
@@ -174,72 +464,649 @@ export async function updateAuctionBid(auctionId: string, bidder: string, bidAmo
   }
 }
 
+/**
+ * Store a bidder's private maximum bid, replacing any earlier one
+ * @param {string} auctionId - Auction ID
+ * @param {string} bidder - Bidder's address
+ * @param {string} maxAmount - Most the server may bid for them, in base units
+ * @param {{ requestId: number, signature: string }} maxBidRequest - Signed request that set the maximum
+ * @returns {boolean} Success status
+ */
+export function setProxyBid(
+  auctionId: string,
+  bidder: string,
+  maxAmount: string,
+  maxBidRequest: { requestId: number; signature: string }
+): boolean {
+  const auctionSession = repository.get(auctionId);
+  if (!auctionSession) {
+    logger.warn(`No auction session found for auction ${auctionId}`);
+    return false;
+  }
+
+  const formattedBidder = ethers.getAddress(bidder);
+  auctionSession.proxyBids = (auctionSession.proxyBids || []).filter((entry) => entry.bidder !== formattedBidder);
+  auctionSession.proxyBids.push({
+    bidder: formattedBidder,
+    maxAmount,
+    timestamp: Date.now(),
+    requestId: maxBidRequest.requestId,
+    signature: maxBidRequest.signature
+  });
+  repository.save(auctionSession);
+
+  logger.nitro(`Stored maximum bid from ${formattedBidder} on auction ${auctionId}`);
+  return true;
+}
+
+/**
+ * Place the bids proxies make against an auction's current bid
+ * Each bid goes through `updateAuctionBid` like a manual one; placing stops at the first failure.
+ * A proxy whose bidder can no longer cover its next bid is cancelled and the rest are planned again.
+ * @param {string} auctionId - Auction ID
+ * @returns {Promise<BidRecord[]>} The visible bids placed, in order
+ */
+export async function runProxyBids(auctionId: string): Promise<BidRecord[]> {
+  const auctionSession = repository.get(auctionId);
+  if (!auctionSession || auctionSession.status !== 'active') {
+    return [];
+  }
+
+  const asset = getAuctionAsset(auctionSession);
+  const placed: BidRecord[] = [];
+  let bids = planProxyBids(auctionSession);
+  while (bids.length > 0) {
+    const [bid, ...rest] = bids;
+
+    const availableFunds = await getAvailableFunds(bid.bidder, asset, auctionId);
+    if (BigInt(bid.amount) > availableFunds) {
+      logger.warn(`Cancelled maximum bid of ${bid.bidder} on auction ${auctionId}: ${bid.amount} exceeds available balance of ${availableFunds}`);
+      auctionSession.proxyBids = (auctionSession.proxyBids || []).filter((entry) => entry.bidder !== bid.bidder);
+      repository.save(auctionSession);
+      bids = planProxyBids(auctionSession);
+      continue;
+    }
+
+    if (!await updateAuctionBid(auctionId, bid.bidder, bid.amount, bid.proxy, true)) {
+      logger.warn(`Proxy bid of ${bid.amount} for ${bid.bidder} on auction ${auctionId} failed`);
+      break;
+    }
+    placed.push(auctionSession.bids[auctionSession.bids.length - 1]);
+    bids = rest;
+  }
+
+  return placed;
+}
+
+/**
+ * Escrow the current sealed-bid or uniform-price allocations in an auction's app session
+ * Every bidder keeps their own allocation, so all of them stay in the session definition.
+ * @param {AuctionSession} session - Sealed-bid or uniform-price auction session
+ * @returns {Promise<boolean>} Whether the ClearNode accepted the update
+ */
+async function updateEscrow(session: AuctionSession): Promise<boolean> {
+  const rpcClient = await getRPCClient();
+  if (!rpcClient) {
+    throw new Error('RPC client not initialized');
+  }
+
+  const asset = getAuctionAsset(session).symbol;
+  const allocations = session.format === 'uniform'
+    ? buildUniformEscrowAllocations(session, asset)
+    : buildSealedEscrowAllocations(session, asset);
+  const bidders = allocations
+    .filter((allocation) => allocation.participant !== session.seller)
+    .map((allocation) => allocation.participant);
+  const updateRequest = {
+    app_session_id: session.appId,
+    ...buildEscrowDefinition(session.seller, bidders),
+    allocations
+  };
+
+  const requestId = Date.now();
+  const response = await rpcClient.sendRequest('update_app_session', [updateRequest, requestId]);
+  if (response) {
+    recordEscrow(session, allocations, Date.now());
+  }
+  return !!response;
+}
+
+/**
+ * Place or raise a bidder's standing bid on a uniform-price auction
+ * The bid's full value is escrowed in the app session. The current bid becomes the clearing
+ * price and the current bidder the best bidder, so reserve and soft-close rules apply as usual.
+ * @param {string} auctionId - Auction ID
+ * @param {string} bidder - Bidder's address
+ * @param {string} price - Price per unit in base units
+ * @param {number} quantity - Units bid for
+ * @param {{ requestId: number, signature: string }} bidRequest - Signed request that placed the bid
+ * @returns {Promise<boolean>} Success status
+ */
+export async function placeUnitBid(
+  auctionId: string,
+  bidder: string,
+  price: string,
+  quantity: number,
+  bidRequest: { requestId: number; signature: string }
+): Promise<boolean> {
+  try {
+    const auctionSession = repository.get(auctionId);
+    if (!auctionSession || auctionSession.format !== 'uniform') {
+      throw new Error(`No uniform-price auction session found for auction ${auctionId}`);
+    }
+
+    const formattedBidder = ethers.getAddress(bidder);
+    const bidTime = Date.now();
+    const unitBids = (auctionSession.unitBids || []).filter((entry) => entry.bidder !== formattedBidder);
+    unitBids.push({
+      bidder: formattedBidder,
+      price,
+      quantity,
+      timestamp: bidTime,
+      requestId: bidRequest.requestId,
+      signature: bidRequest.signature
+    });
+
+    const previousUnitBids = auctionSession.unitBids;
+    auctionSession.unitBids = unitBids;
+
+    if (!await updateEscrow(auctionSession)) {
+      auctionSession.unitBids = previousUnitBids;
+      return false;
+    }
+
+    auctionSession.bids.push({
+      bidder: formattedBidder,
+      amount: price,
+      quantity,
+      timestamp: bidTime,
+      requestId: bidRequest.requestId,
+      signature: bidRequest.signature
+    });
+
+    const { fills, clearingPrice } = allocateUnits(auctionSession);
+    auctionSession.currentBidder = fills.length > 0 ? fills[0].bidder : null;
+    auctionSession.currentBid = clearingPrice !== null ? clearingPrice.toString() : auctionSession.startingPrice;
+
+    applySoftClose(auctionSession, bidTime);
+    repository.save(auctionSession);
+
+    logger.nitro(`Recorded bid for ${quantity} units at ${price} from ${formattedBidder} on auction ${auctionId}`);
+    return true;
+  } catch (error) {
+    logger.error(`Error placing unit bid for auction ${auctionId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Record a bidder's commitment on a sealed-bid auction, replacing any earlier one
+ * The commitment's penalty bond is escrowed in the app session.
+ * @param {string} auctionId - Auction ID
+ * @param {string} bidder - Bidder's address
+ * @param {string} commitment - Hash of the bid amount and salt
+ * @param {{ requestId: number, signature: string }} commitRequest - Signed request that submitted the commitment
+ * @returns {Promise<boolean>} Success status
+ */
+export async function commitSealedBid(
+  auctionId: string,
+  bidder: string,
+  commitment: string,
+  commitRequest: { requestId: number; signature: string }
+): Promise<boolean> {
+  try {
+    const auctionSession = repository.get(auctionId);
+    if (!auctionSession || !isSealedFormat(auctionSession.format)) {
+      throw new Error(`No sealed-bid auction session found for auction ${auctionId}`);
+    }
+
+    const formattedBidder = ethers.getAddress(bidder);
+    const commitments = (auctionSession.commitments || []).filter((entry) => entry.bidder !== formattedBidder);
+    commitments.push({
+      bidder: formattedBidder,
+      commitment,
+      timestamp: Date.now(),
+      requestId: commitRequest.requestId,
+      signature: commitRequest.signature
+    });
+
+    const previousCommitments = auctionSession.commitments;
+    auctionSession.commitments = commitments;
+
+    if (!await updateEscrow(auctionSession)) {
+      auctionSession.commitments = previousCommitments;
+      return false;
+    }
+
+    repository.save(auctionSession);
+    logger.nitro(`Recorded sealed bid commitment from ${formattedBidder} on auction ${auctionId}`);
+    return true;
+  } catch (error) {
+    logger.error(`Error recording sealed bid for auction ${auctionId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Stop taking commitments on a sealed-bid auction and open its reveal phase
+ * @param {string} auctionId - Auction ID
+ * @returns {boolean} Whether the auction moved to `revealing`
+ */
+export function beginRevealPhase(auctionId: string): boolean {
+  const auctionSession = repository.get(auctionId);
+  if (!auctionSession || !isSealedFormat(auctionSession.format) || auctionSession.status !== 'active') {
+    return false;
+  }
+
+  const revealWindow = auctionSession.sealedBid?.revealWindow ?? 0;
+  auctionSession.revealEndTime = auctionSession.endTime + revealWindow * 1000;
+  setAuctionStatus(auctionSession, 'revealing');
+  repository.save(auctionSession);
+
+  logger.game(`Auction ${auctionId} closed for commitments, reveals open until ${new Date(auctionSession.revealEndTime).toISOString()}`);
+  return true;
+}
+
+/**
+ * Record a revealed sealed bid whose amount and salt match the bidder's commitment
+ * The revealed amount replaces the bond in escrow, and the best revealed bid becomes the current bid.
+ * @param {string} auctionId - Auction ID
+ * @param {string} bidder - Bidder's address
+ * @param {string} amount - Revealed bid amount in base units
+ * @param {{ requestId: number, signature: string }} revealRequest - Signed request that revealed the bid
+ * @returns {Promise<boolean>} Success status
+ */
+export async function revealSealedBid(
+  auctionId: string,
+  bidder: string,
+  amount: string,
+  revealRequest: { requestId: number; signature: string }
+): Promise<boolean> {
+  try {
+    const auctionSession = repository.get(auctionId);
+    if (!auctionSession || !isSealedFormat(auctionSession.format)) {
+      throw new Error(`No sealed-bid auction session found for auction ${auctionId}`);
+    }
+
+    const formattedBidder = ethers.getAddress(bidder);
+    const commitment = auctionSession.commitments?.find((entry) => entry.bidder === formattedBidder);
+    if (!commitment) {
+      throw new Error(`No commitment from ${formattedBidder} on auction ${auctionId}`);
+    }
+
+    const revealedAt = Date.now();
+    commitment.revealedAmount = amount;
+    commitment.revealedAt = revealedAt;
+
+    if (!await updateEscrow(auctionSession)) {
+      delete commitment.revealedAmount;
+      delete commitment.revealedAt;
+      return false;
+    }
+
+    auctionSession.bids.push({
+      bidder: formattedBidder,
+      amount,
+      timestamp: revealedAt,
+      requestId: revealRequest.requestId,
+      signature: revealRequest.signature
+    });
+
+    // Lead with the best revealed bid that meets the starting price
+    const leader = getRevealedCommitments(auctionSession)
+      .find((entry) => BigInt(entry.revealedAmount!) >= BigInt(auctionSession.startingPrice));
+    auctionSession.currentBidder = leader ? leader.bidder : null;
+    auctionSession.currentBid = leader ? leader.revealedAmount! : auctionSession.startingPrice;
+
+    repository.save(auctionSession);
+    logger.nitro(`Revealed sealed bid of ${amount} from ${formattedBidder} on auction ${auctionId}`);
+    return true;
+  } catch (error) {
+    logger.error(`Error revealing sealed bid for auction ${auctionId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Sell a Dutch auction to the first buyer who accepts its price
+ * Opens an app session holding the buyer's payment and settles it straight away.
+ * The auction leaves `active` before any ClearNode call, so a concurrent acceptance is refused.
+ * @param {string} auctionId - Auction ID
+ * @param {string} buyer - Buyer's address
+ * @param {string} price - Price the buyer pays in base units
+ * @param {{ requestId: number, signature: string }} acceptRequest - Signed request that accepted the price
+ * @returns {Promise<boolean>} Success status
+ */
+export async function acceptDutchPrice(
+  auctionId: string,
+  buyer: string,
+  price: string,
+  acceptRequest: { requestId: number; signature: string }
+): Promise<boolean> {
+  const auctionSession = repository.get(auctionId);
+  if (!auctionSession || auctionSession.format !== 'dutch' || auctionSession.status !== 'active') {
+    logger.warn(`Dutch auction ${auctionId} is not open for acceptance`);
+    return false;
+  }
+
+  setAuctionStatus(auctionSession, 'finalizing');
+  repository.save(auctionSession);
+
+  const formattedBuyer = ethers.getAddress(buyer) as `0x${string}`;
+  const seller = auctionSession.seller as `0x${string}`;
+  const asset = getAuctionAsset(auctionSession).symbol;
+
+  try {
+    const allocations = [
+      { participant: seller, asset, amount: '0' },
+      { participant: formattedBuyer, asset, amount: price }
+    ];
+    auctionSession.appId = await openAppSession(seller, [formattedBuyer], allocations);
+    recordEscrow(auctionSession, allocations, Date.now());
+  } catch (error) {
+    // Nothing was escrowed, so the auction can keep running
+    logger.error(`Error opening app session for Dutch auction ${auctionId}:`, error);
+    setAuctionStatus(auctionSession, 'active');
+    repository.save(auctionSession);
+    return false;
+  }
+
+  auctionSession.currentBidder = formattedBuyer;
+  auctionSession.currentBid = price;
+  auctionSession.bids.push({
+    bidder: formattedBuyer,
+    amount: price,
+    timestamp: Date.now(),
+    requestId: acceptRequest.requestId,
+    signature: acceptRequest.signature
+  });
+  repository.save(auctionSession);
+  logger.nitro(`Buyer ${formattedBuyer} accepted ${price} on Dutch auction ${auctionId}`);
+
+  // A failed close is retried by the scheduler while the auction is finalizing
+  return settleAuctionSession(auctionId);
+}
+
+/**
+ * Persist the intended close of an auction's app session before anything is sent
+ * @param {AuctionSession} session - Auction session being closed
+ * @param {AuctionOutcome} outcome - Outcome once the close is confirmed
+ * @param {string | null} finalPrice - Price paid, if sold
+ * @param {SettlementAllocation[]} allocations - Final allocations
+ */
+function writeSettlementJournal(
+  session: AuctionSession,
+  outcome: AuctionOutcome,
+  finalPrice: string | null,
+  allocations: SettlementAllocation[]
+): void {
+  session.settlement = {
+    requestId: Date.now(),
+    outcome,
+    finalPrice,
+    allocations,
+    createdAt: Date.now(),
+    attempts: 0
+  };
+  repository.save(session);
+}
+
+/**
+ * Record a journaled close as confirmed and end the auction with its outcome
+ * @param {AuctionSession} session - Auction session whose close the ClearNode confirmed
+ */
+function confirmSettlement(session: AuctionSession): void {
+  const journal = session.settlement!;
+  journal.confirmedAt = Date.now();
+
+  // Keep the settled auction so its result survives
+  session.outcome = journal.outcome;
+  if (journal.finalPrice) {
+    session.finalPrice = journal.finalPrice;
+  }
+  releaseAllEscrow(session, journal.confirmedAt);
+  setAuctionStatus(session, 'ended');
+  repository.save(session);
+}
+
+/**
+ * Ask the ClearNode for the status of an auction's app session
+ * @param {AuctionSession} session - Auction session with an app session
+ * @returns {Promise<string | null>} The reported status, or null if the session is unknown or the query failed
+ */
+async function getAppSessionStatus(session: AuctionSession): Promise<string | null> {
+  try {
+    const rpcClient = await getRPCClient();
+    if (!rpcClient) {
+      throw new Error('RPC client not initialized');
+    }
+
+    const response = await rpcClient.sendRequest('get_app_sessions', [{ participant: session.seller }]);
+
+    const appSessions = getResponseList<AppSessionResponse>(response);
+    return appSessions.find((appSession) => appSession.app_session_id === session.appId)?.status ?? null;
+  } catch (error) {
+    logger.error(`Error getting app session status for auction ${session.auctionId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Send an auction's journaled close and end the auction once the ClearNode confirms it
+ * Every attempt sends the journaled allocations, but the RPC client gives each attempt a new
+ * request ID, so the ClearNode cannot tell a retry from a new close. Closes are kept idempotent
+ * by asking the ClearNode first: after a timeout or a restart it may already have closed the
+ * session, which is then confirmed without sending the close again. The close is only sent to a
+ * session the ClearNode reports as open; without an answer it is left for a later retry.
+ * @param {AuctionSession} session - Auction session with a settlement journal
+ * @returns {Promise<boolean>} Whether the close is confirmed
+ */
+async function closeJournaledSession(session: AuctionSession): Promise<boolean> {
+  const journal = session.settlement!;
+
+  const status = await getAppSessionStatus(session);
+  if (status === 'closed') {
+    logger.nitro(`App session ${session.appId} was already closed, confirming auction ${session.auctionId}`);
+    confirmSettlement(session);
+    return true;
+  }
+
+  if (status !== 'open') {
+    logger.warn(`App session ${session.appId} status is ${status ?? 'unknown'}, retrying the close of auction ${session.auctionId} later`);
+    return false;
+  }
+
+  const rpcClient = await getRPCClient();
+  if (!rpcClient) {
+    throw new Error('RPC client not initialized');
+  }
+
+  journal.attempts += 1;
+  repository.save(session);
+
+  const closeRequest = {
+    app_session_id: session.appId,
+    allocations: journal.allocations
+  };
+  const response = await rpcClient.sendRequest('close_app_session', [closeRequest, journal.requestId]);
+  if (!response) {
+    return false;
+  }
+
+  confirmSettlement(session);
+  return true;
+}
+
+/**
+ * Reconcile auctions left finalizing by a restart against the ClearNode
+ * Journaled closes the ClearNode reports as done are confirmed; the rest stay finalizing for
+ * the scheduler to retry.
+ * @returns {Promise<AuctionSession[]>} Auctions confirmed as ended
+ */
+export async function reconcileSettlements(): Promise<AuctionSession[]> {
+  const pending = repository.list().filter((session) => (
+    session.status === 'finalizing' && session.appId && session.settlement && !session.settlement.confirmedAt
+  ));
+
+  const confirmed: AuctionSession[] = [];
+  for (const session of pending) {
+    if (await getAppSessionStatus(session) === 'closed') {
+      confirmSettlement(session);
+      confirmed.push(session);
+      logger.nitro(`Reconciled auction ${session.auctionId}: its app session was closed before the restart`);
+    }
+  }
+
+  return confirmed;
+}
+
 /**
  * Settle an auction session and transfer funds
+ * The auction moves to `finalizing` until the ClearNode confirms the close, then to `ended`.
+ * An auction without bids, or whose top bid misses the reserve, closes as not sold
+ * and returns every allocation. Sealed-bid auctions settle on their revealed bids, Dutch
+ * auctions on their accepted price, and uniform-price auctions pay out every winner at once.
  * @param {string} auctionId - Auction ID
  * @returns {Promise<boolean>} Success status
  */
 export async function settleAuctionSession(auctionId: string): Promise<boolean> {
   try {
-    const auctionSession = auctionSessions.get(auctionId);
+    const auctionSession = repository.get(auctionId);
     if (!auctionSession) {
       logger.warn(`No auction session found for auction ${auctionId}`);
       return false;
     }
-    
-    if (!auctionSession.currentBidder) {
-      logger.warn(`No winning bidder for auction ${auctionId}`);
+
+    if (auctionSession.status === 'ended') {
+      logger.warn(`Auction ${auctionId} has already been settled`);
       return false;
     }
 
-    const rpcClient = await getRPCClient();
-    if (!rpcClient) {
-      throw new Error('RPC client not initialized');
+    if (auctionSession.status === 'active' || auctionSession.status === 'revealing') {
+      setAuctionStatus(auctionSession, 'finalizing');
+      repository.save(auctionSession);
     }
-    
-    // Final settlement allocations
-    const settleRequest = {
-      app_session_id: auctionSession.appId,
-      allocations: [
-        {
-          participant: auctionSession.seller as `0x${string}`,
-          asset: 'usdc',
-          amount: auctionSession.currentBid, // Seller receives winning bid
-        },
-        {
-          participant: auctionSession.currentBidder as `0x${string}`,
-          asset: 'usdc',
-          amount: '0', // Bidder's funds are transferred to seller
-        }
-      ]
-    };
-    
-    // Send settlement request
-    const requestId = Date.now();
-    const response = await rpcClient.sendRequest('close_app_session', [settleRequest, requestId]);
-    
-    if (response) {
-      // Remove the auction session
-      auctionSessions.delete(auctionId);
+
+    // A Dutch auction nobody accepted never opened an app session, so there is nothing to close
+    if (!auctionSession.appId) {
+      auctionSession.outcome = 'unsold';
+      setAuctionStatus(auctionSession, 'ended');
+      repository.save(auctionSession);
+      logger.nitro(`Dutch auction ${auctionId} reached its end time without a buyer`);
+      return true;
+    }
+
+    // Journal the final allocations once, so retries close the session exactly as first intended
+    if (!auctionSession.settlement) {
+      // Final settlement allocations, with the platform fee and royalties on the sale price routed out of the seller's proceeds
+      const { outcome, finalPrice, salePrice, allocations: saleAllocations } = buildSettlementAllocations(auctionSession);
+      if (outcome === 'unsold') {
+        logger.nitro(`No bid met the reserve for auction ${auctionId}, closing unsold`);
+      }
+      writeSettlementJournal(
+        auctionSession,
+        outcome,
+        finalPrice,
+        returnSellerBond(auctionSession, applyFeeSplits(auctionSession, saleAllocations, outcome === 'sold' ? salePrice : '0'))
+      );
+    }
+
+    if (await closeJournaledSession(auctionSession)) {
       logger.nitro(`Settled auction session ${auctionSession.appId} for auction ${auctionId}`);
       return true;
     }
-    
+
     return false;
-    
+
   } catch (error) {
     logger.error(`Error settling auction session for auction ${auctionId}:`, error);
     return false;
   }
 }
 
+/**
+ * Withdraw an auction at the seller's request
+ * Closes the app session with every bidder's funds returned, plus the seller's penalty once
+ * bidding has started. The auction leaves `active` before the ClearNode call, so no bid lands
+ * meanwhile; an unconfirmed close stays journaled and is retried like any settlement.
+ * @param {string} auctionId - Auction ID
+ * @returns {Promise<boolean>} Success status
+ */
+export async function cancelAuctionSession(auctionId: string): Promise<boolean> {
+  const auctionSession = repository.get(auctionId);
+  if (!auctionSession || auctionSession.status !== 'active') {
+    logger.warn(`Auction ${auctionId} is not open for cancellation`);
+    return false;
+  }
+
+  setAuctionStatus(auctionSession, 'finalizing');
+  const { allocations } = buildCancellationAllocations(auctionSession, getAuctionAsset(auctionSession).symbol);
+  writeSettlementJournal(auctionSession, 'cancelled', null, allocations);
+
+  // A Dutch auction has no app session until it sells
+  if (!auctionSession.appId) {
+    confirmSettlement(auctionSession);
+    logger.nitro(`Cancelled Dutch auction ${auctionId}`);
+    return true;
+  }
+
+  try {
+    if (await closeJournaledSession(auctionSession)) {
+      logger.nitro(`Cancelled auction ${auctionId}`);
+      return true;
+    }
+  } catch (error) {
+    logger.error(`Error cancelling auction ${auctionId}:`, error);
+  }
+
+  // The journaled close is retried by the scheduler while the auction is finalizing
+  return false;
+}
+
+/**
+ * Record the progress of a settled auction's on-chain finalization
+ * @param {AuctionSession} session - Settled auction session
+ * @param {OnChainFinalization} finalization - Finalization progress
+ */
+export function recordFinalization(session: AuctionSession, finalization: OnChainFinalization): void {
+  session.finalization = finalization;
+  repository.save(session);
+}
+
 /**
  * Get the auction session for an auction
  * @param {string} auctionId - Auction ID
  * @returns {Object|null} The auction session or null if not found
  */
-export function getAuctionSession(auctionId: string) {
-  return auctionSessions.get(auctionId) || null;
+export function getAuctionSession(auctionId: string): AuctionSession | null {
+  return repository.get(auctionId);
+}
+
+/**
+ * Get a page of an auction's bid history, newest bid first
+ * @param {string} auctionId - Auction ID
+ * @param {number} offset - Number of newest bids to skip
+ * @param {number} limit - Maximum number of bids to return
+ * @returns {{ bids: BidRecord[], total: number }} The page of bids and the total bid count
+ */
+export function getAuctionBids(
+  auctionId: string,
+  offset: number = 0,
+  limit: number = DEFAULT_BID_PAGE_SIZE
+): { bids: BidRecord[]; total: number } {
+  const auctionSession = repository.get(auctionId);
+  if (!auctionSession) {
+    return { bids: [], total: 0 };
+  }
+
+  const total = auctionSession.bids.length;
+  const start = Math.max(0, total - offset - limit);
+  const end = Math.max(0, total - offset);
+
+  return {
+    bids: auctionSession.bids.slice(start, end).reverse(),
+    total
+  };
 }
 
 /**
@@ -248,15 +1115,15 @@ export function getAuctionSession(auctionId: string) {
  * @returns {boolean} Whether the auction has an active session
  */
 export function hasAuctionSession(auctionId: string): boolean {
-  return auctionSessions.has(auctionId);
+  return repository.get(auctionId) !== null;
 }
 
 /**
  * Get all auction sessions
- * @returns {Map} Map of all auction sessions
+ * @returns {AuctionSession[]} All stored auction sessions, including settled ones
  */
-export function getAllAuctionSessions() {
-  return auctionSessions;
+export function getAllAuctionSessions(): AuctionSession[] {
+  return repository.list();
 }
 
 /**
@@ -267,6 +1134,14 @@ export async function createDefaultAuction(): Promise<string> {
   try {
     // Generate a deterministic auction ID for the default auction
     const defaultAuctionId = 'default-auction-0x1';
+
+    // Keep a default auction restored from storage; only the unsettled mock is replaced by a real one
+    const existing = repository.get(defaultAuctionId);
+    const isUnsettledMock = existing?.appId === mockAppId && existing.status === 'active' && !existing.settlement;
+    if (existing && !isUnsettledMock) {
+      logger.nitro(`Default auction ${defaultAuctionId} restored from storage`);
+      return defaultAuctionId;
+    }
     
     // Use the server's address as the seller
     const rpcClient = await getRPCClient();
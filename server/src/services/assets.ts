@@ -0,0 +1,77 @@
+/**
+ * Settlement assets
+ * This file looks up the assets the ClearNode supports and the asset each auction settles in
+ */
+import { getResponseList, getRPCClient } from './nitroliteRPC.js';
+import { AuctionAsset, AuctionSession } from '../types.js';
+
+interface ClearNodeAsset {
+  token: string;
+  chain_id: number;
+  symbol: string;
+  decimals: number;
+}
+
+// Asset of auctions created without one
+export const DEFAULT_ASSET: AuctionAsset = { symbol: 'usdc', decimals: 6 };
+
+/**
+ * Get the asset an auction settles in
+ * @param {AuctionSession} session - Auction session
+ * @returns {AuctionAsset} The auction's asset
+ */
+export function getAuctionAsset(session: AuctionSession): AuctionAsset {
+  return session.asset ?? DEFAULT_ASSET;
+}
+
+/**
+ * List the assets the ClearNode holds, once per chain
+ * @returns {Promise<ClearNodeAsset[]>} The ClearNode's assets
+ */
+async function listClearNodeAssets(): Promise<ClearNodeAsset[]> {
+  const rpcClient = await getRPCClient();
+  if (!rpcClient) {
+    throw new Error('RPC client not initialized');
+  }
+
+  const response = await rpcClient.sendRequest('get_assets', [{}]);
+
+  return getResponseList<ClearNodeAsset>(response).filter((asset) => typeof asset.symbol === 'string' && Number.isInteger(asset.decimals));
+}
+
+/**
+ * Get the assets the ClearNode supports
+ * The ClearNode lists each asset once per chain it is held on, so symbols are deduplicated.
+ * @returns {Promise<AuctionAsset[]>} Supported assets
+ */
+export async function getSupportedAssets(): Promise<AuctionAsset[]> {
+  const assets = await listClearNodeAssets();
+
+  return assets
+    .reduce<AuctionAsset[]>((unique, asset) => (
+      unique.some((entry) => entry.symbol === asset.symbol)
+        ? unique
+        : [...unique, { symbol: asset.symbol, decimals: asset.decimals }]
+    ), []);
+}
+
+/**
+ * Find a supported asset by its symbol
+ * @param {string} symbol - Asset symbol, in any case
+ * @returns {Promise<AuctionAsset | null>} The asset, or null when the ClearNode does not support it
+ */
+export async function findSupportedAsset(symbol: string): Promise<AuctionAsset | null> {
+  const assets = await getSupportedAssets();
+  return assets.find((asset) => asset.symbol.toLowerCase() === symbol.toLowerCase()) ?? null;
+}
+
+/**
+ * Get the token contract of an asset on a chain
+ * @param {string} symbol - Asset symbol
+ * @param {number} chainId - Chain ID
+ * @returns {Promise<string | null>} The token address, or null when the ClearNode holds no such asset on the chain
+ */
+export async function getAssetToken(symbol: string, chainId: number): Promise<string | null> {
+  const assets = await listClearNodeAssets();
+  return assets.find((asset) => asset.symbol === symbol && asset.chain_id === chainId)?.token ?? null;
+}
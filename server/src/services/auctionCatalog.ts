@@ -0,0 +1,170 @@
+/**
+ * Auction catalog
+ * This file builds the client-facing views of auctions and filters them for discovery
+ */
+import { getAllAuctionSessions, getAuctionBids, isReserveMet } from './appSessions.js';
+import { getMinimumNextBid } from './bidIncrements.js';
+import { getDutchPrice } from './dutchPricing.js';
+import { getActiveLocks } from './escrow.js';
+import { getAuctionAsset } from './assets.js';
+import { allocateUnits, getRankedUnitBids } from './uniformPrice.js';
+import { AuctionSession, AuctionStatus } from '../types.js';
+
+export interface AuctionListFilters {
+  status?: AuctionStatus;
+  seller?: string;
+  // Only active auctions ending within this many seconds
+  endingWithin?: number;
+}
+
+// Catalog page sizes
+export const DEFAULT_LIST_PAGE_SIZE = 20;
+export const MAX_LIST_PAGE_SIZE = 100;
+
+/**
+ * Build the catalog summary of an auction
+ * @param {AuctionSession} auction - Auction session
+ * @returns {Object} Public auction summary
+ */
+export function toAuctionSummary(auction: AuctionSession) {
+  return {
+    auctionId: auction.auctionId,
+    title: auction.title,
+    description: auction.description,
+    seller: auction.seller,
+    format: auction.format ?? 'english',
+    status: auction.status,
+    // Set once the auction has ended: sold, unsold or cancelled by the seller
+    outcome: auction.outcome ?? null,
+    // Amounts below are integers in the asset's smallest unit
+    asset: getAuctionAsset(auction),
+    units: auction.units ?? 1,
+    startingPrice: auction.startingPrice,
+    currentBid: auction.currentBid,
+    currentBidder: auction.currentBidder,
+    endTime: new Date(auction.endTime).toISOString(),
+    bidsTotal: auction.bids.length,
+    // Asking price of an active Dutch auction right now
+    currentPrice: auction.format === 'dutch' && auction.status === 'active'
+      ? getDutchPrice(auction, Date.now()).toString()
+      : null,
+    // Price paid once sold, below the winning bid in second-price auctions
+    finalPrice: auction.outcome === 'sold' ? auction.finalPrice ?? auction.currentBid : null,
+    // The reserve value itself stays hidden
+    hasReserve: !!auction.reservePrice,
+    reserveMet: isReserveMet(auction)
+  };
+}
+
+/**
+ * Build the public result of a settled auction
+ * The winning bid and the price paid differ in second-price auctions. Uniform-price auctions
+ * also list every winner with the units they won; `winner` is the best bidder among them.
+ * @param {AuctionSession} auction - Settled auction session
+ * @returns {Object} Outcome, winners, winning bid and price paid
+ */
+export function toSettlementResult(auction: AuctionSession) {
+  const sold = auction.outcome === 'sold';
+  const fills = sold && auction.format === 'uniform' ? allocateUnits(auction).fills : [];
+  return {
+    auctionId: auction.auctionId,
+    sold,
+    winner: sold ? fills[0]?.bidder ?? auction.currentBidder : null,
+    winningBid: sold ? fills[0]?.bid.price ?? auction.currentBid : null,
+    finalPrice: sold ? auction.finalPrice ?? auction.currentBid : null,
+    winners: fills.map((fill) => ({ bidder: fill.bidder, quantity: fill.quantity })),
+    finalization: auction.finalization ?? null
+  };
+}
+
+/**
+ * Build the public view of a uniform-price auction's standing bids, best first
+ * @param {AuctionSession} auction - Auction session
+ * @returns {Array} Each bid with the units it would win if the auction closed now
+ */
+export function toStandingBids(auction: AuctionSession) {
+  const { fills } = allocateUnits(auction);
+  return getRankedUnitBids(auction).map((bid) => ({
+    bidder: bid.bidder,
+    price: bid.price,
+    quantity: bid.quantity,
+    filled: fills.find((fill) => fill.bid === bid)?.quantity ?? 0
+  }));
+}
+
+/**
+ * Build the full state of an auction with a page of its bid history
+ * @param {AuctionSession} auction - Auction session
+ * @param {number} bidsOffset - Number of newest bids to skip
+ * @param {number} bidsLimit - Maximum number of bids to include
+ * @returns {Object} The `auction:state` message
+ */
+export function buildAuctionState(auction: AuctionSession, bidsOffset: number, bidsLimit: number) {
+  const { bids, total } = getAuctionBids(auction.auctionId, bidsOffset, bidsLimit);
+
+  return {
+    type: 'auction:state',
+    ...toAuctionSummary(auction),
+    softClose: auction.softClose ?? null,
+    incrementPolicy: auction.incrementPolicy ?? null,
+    minNextBid: getMinimumNextBid(auction).toString(),
+    // Sealed-bid auctions expose how many bids are sealed, never their amounts
+    sealedBid: auction.sealedBid ?? null,
+    revealEndTime: auction.revealEndTime ? new Date(auction.revealEndTime).toISOString() : null,
+    commitmentsTotal: auction.commitments?.length ?? 0,
+    revealsTotal: auction.commitments?.filter((commitment) => commitment.revealedAmount !== undefined).length ?? 0,
+    dutchSchedule: auction.dutchSchedule ?? null,
+    // Shares of the proceeds paid to the platform and creators at settlement
+    platformFeeBps: auction.platformFeeBps ?? 0,
+    royalties: auction.royalties ?? [],
+    // Paid to the bidders if the seller cancels after bidding starts
+    cancellationPenalty: auction.cancellationPenalty ?? null,
+    standingBids: auction.format === 'uniform' ? toStandingBids(auction) : [],
+    // How many bidders have funds locked in the app session right now
+    lockedBidders: getActiveLocks(auction).length,
+    bids,
+    bidsTotal: total,
+    bidsOffset,
+    bidsLimit
+  };
+}
+
+/**
+ * List auctions matching the given filters
+ * Auctions ending soon are ordered by end time, everything else newest first.
+ * @param {AuctionListFilters} filters - Catalog filters
+ * @param {number} offset - Number of matching auctions to skip
+ * @param {number} limit - Maximum number of auctions to return
+ * @returns {{ auctions: AuctionSession[], total: number }} The page of auctions and the total match count
+ */
+export function listAuctions(
+  filters: AuctionListFilters = {},
+  offset: number = 0,
+  limit: number = DEFAULT_LIST_PAGE_SIZE
+): { auctions: AuctionSession[]; total: number } {
+  const now = Date.now();
+
+  const matches = getAllAuctionSessions().filter((auction) => {
+    if (filters.status && auction.status !== filters.status) {
+      return false;
+    }
+    if (filters.seller && auction.seller !== filters.seller) {
+      return false;
+    }
+    if (filters.endingWithin !== undefined) {
+      return auction.status === 'active'
+        && auction.endTime > now
+        && auction.endTime - now <= filters.endingWithin * 1000;
+    }
+    return true;
+  });
+
+  matches.sort(filters.endingWithin !== undefined
+    ? (a, b) => a.endTime - b.endTime
+    : (a, b) => b.createdAt - a.createdAt);
+
+  return {
+    auctions: matches.slice(offset, offset + limit),
+    total: matches.length
+  };
+}
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileAuctionRepository } from './auctionRepository.js';
+import { buildAuctionSession } from '../test/fixtures.js';
+
+describe('FileAuctionRepository', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'auction-store-'));
+    filePath = path.join(directory, 'auctions.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('restores saved sessions', () => {
+    new FileAuctionRepository(filePath).save(buildAuctionSession());
+
+    const restored = new FileAuctionRepository(filePath).load();
+    assert.deepEqual(restored.map((session) => session.auctionId), ['auction-1']);
+  });
+
+  it('keeps seeded sessions out of the store', () => {
+    const repository = new FileAuctionRepository(filePath);
+    repository.seed(buildAuctionSession({ auctionId: 'seeded' }));
+    repository.save(buildAuctionSession());
+
+    const restored = new FileAuctionRepository(filePath).load();
+    assert.deepEqual(restored.map((session) => session.auctionId), ['auction-1']);
+  });
+
+  it('persists a seeded session once it is saved', () => {
+    const repository = new FileAuctionRepository(filePath);
+    const session = buildAuctionSession({ auctionId: 'seeded' });
+    repository.seed(session);
+    session.currentBid = '200';
+    repository.save(session);
+
+    const restored = new FileAuctionRepository(filePath).load();
+    assert.equal(restored.length, 1);
+    assert.equal(restored[0].auctionId, 'seeded');
+    assert.equal(restored[0].currentBid, '200');
+  });
+
+  it('moves an unreadable store aside and starts empty', () => {
+    fs.writeFileSync(filePath, '[{"auctionId":');
+
+    assert.deepEqual(new FileAuctionRepository(filePath).load(), []);
+    assert.equal(fs.existsSync(filePath), false);
+    assert.equal(fs.readdirSync(directory).filter((name) => name.startsWith('auctions.json.corrupt-')).length, 1);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Auction storage
+ * This file defines the repository used to persist auction sessions and its implementations
+ */
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import logger from '../utils/logger.js';
+import { AuctionSession } from '../types.js';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Storage backend for auction sessions
+ * Reads are served synchronously so handlers can inspect auctions without awaiting I/O
+ */
+export interface AuctionRepository {
+  /** Load persisted sessions, replacing anything held in memory */
+  load(): AuctionSession[];
+  get(auctionId: string): AuctionSession | null;
+  list(): AuctionSession[];
+  /** Insert or replace a session; callers must save after every mutation */
+  save(session: AuctionSession): void;
+  /** Hold a session in memory only, such as development fixtures; it is written to storage once saved */
+  seed(session: AuctionSession): void;
+  delete(auctionId: string): void;
+}
+
+/**
+ * Volatile repository, used for tests and when persistence is disabled
+ */
+export class InMemoryAuctionRepository implements AuctionRepository {
+  protected sessions = new Map<string, AuctionSession>();
+  // IDs of sessions held in memory only
+  protected seeded = new Set<string>();
+
+  load(): AuctionSession[] {
+    return this.list();
+  }
+
+  get(auctionId: string): AuctionSession | null {
+    return this.sessions.get(auctionId) || null;
+  }
+
+  list(): AuctionSession[] {
+    return Array.from(this.sessions.values());
+  }
+
+  save(session: AuctionSession): void {
+    this.sessions.set(session.auctionId, session);
+    this.seeded.delete(session.auctionId);
+  }
+
+  seed(session: AuctionSession): void {
+    this.sessions.set(session.auctionId, session);
+    this.seeded.add(session.auctionId);
+  }
+
+  delete(auctionId: string): void {
+    this.sessions.delete(auctionId);
+    this.seeded.delete(auctionId);
+  }
+}
+
+/**
+ * Embedded repository that keeps a JSON snapshot of every session on disk
+ * Each write replaces the file atomically so a crash never leaves it half written
+ */
+export class FileAuctionRepository extends InMemoryAuctionRepository {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = path.resolve(filePath);
+  }
+
+  load(): AuctionSession[] {
+    this.sessions.clear();
+    this.seeded.clear();
+
+    if (!fs.existsSync(this.filePath)) {
+      logger.system(`No auction store found at ${this.filePath}, starting empty`);
+      return [];
+    }
+
+    let stored: AuctionSession[];
+    try {
+      stored = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as AuctionSession[];
+      if (!Array.isArray(stored)) {
+        throw new Error('store is not an array of auction sessions');
+      }
+    } catch (error) {
+      // Keep the unreadable store for inspection rather than overwriting it on the next save
+      const corruptPath = `${this.filePath}.corrupt-${Date.now()}`;
+      fs.renameSync(this.filePath, corruptPath);
+      logger.error(`Auction store at ${this.filePath} is unreadable, moved it to ${corruptPath} and starting empty:`, error);
+      return [];
+    }
+    stored.forEach((session) => this.sessions.set(session.auctionId, session));
+
+    logger.system(`Loaded ${stored.length} auction sessions from ${this.filePath}`);
+    return this.list();
+  }
+
+  save(session: AuctionSession): void {
+    super.save(session);
+    this.flush();
+  }
+
+  delete(auctionId: string): void {
+    super.delete(auctionId);
+    this.flush();
+  }
+
+  // Write the full snapshot to a temp file and rename it over the store
+  private flush(): void {
+    const tempPath = `${this.filePath}.tmp`;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const persisted = this.list().filter((session) => !this.seeded.has(session.auctionId));
+    fs.writeFileSync(tempPath, JSON.stringify(persisted, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+/**
+ * Create the repository selected by the AUCTION_STORE environment variable
+ * @returns {AuctionRepository} A file-backed repository, or an in-memory one when AUCTION_STORE=memory
+ */
+export function createAuctionRepository(): AuctionRepository {
+  if (process.env.AUCTION_STORE === 'memory') {
+    logger.system('Using in-memory auction store');
+    return new InMemoryAuctionRepository();
+  }
+
+  const filePath = process.env.AUCTION_STORE_PATH || 'data/auctions.json';
+  logger.system(`Using file auction store at ${filePath}`);
+  return new FileAuctionRepository(filePath);
+}
@@ -0,0 +1,110 @@
+/**
+ * Auction rooms
+ * This file tracks which sockets are watching which auctions and delivers auction events to them
+ */
+import { WebSocket } from 'ws';
+import logger from '../utils/logger.js';
+
+// Map of auction ID to the sockets subscribed to it
+const rooms = new Map<string, Set<WebSocket>>();
+
+// Map of socket to the auctions it follows, so a socket can watch several auctions
+const socketRooms = new Map<WebSocket, Set<string>>();
+
+/**
+ * Subscribe a socket to an auction
+ * @param {string} auctionId - Auction ID
+ * @param {WebSocket} ws - Subscribing socket
+ */
+export function joinAuctionRoom(auctionId: string, ws: WebSocket): void {
+  let room = rooms.get(auctionId);
+  if (!room) {
+    room = new Set();
+    rooms.set(auctionId, room);
+  }
+  room.add(ws);
+
+  let auctions = socketRooms.get(ws);
+  if (!auctions) {
+    auctions = new Set();
+    socketRooms.set(ws, auctions);
+  }
+  auctions.add(auctionId);
+}
+
+/**
+ * Unsubscribe a socket from an auction
+ * @param {string} auctionId - Auction ID
+ * @param {WebSocket} ws - Unsubscribing socket
+ */
+export function leaveAuctionRoom(auctionId: string, ws: WebSocket): void {
+  const room = rooms.get(auctionId);
+  if (room) {
+    room.delete(ws);
+    if (room.size === 0) {
+      rooms.delete(auctionId);
+    }
+  }
+
+  const auctions = socketRooms.get(ws);
+  if (auctions) {
+    auctions.delete(auctionId);
+    if (auctions.size === 0) {
+      socketRooms.delete(ws);
+    }
+  }
+}
+
+/**
+ * Unsubscribe a socket from every auction, e.g. when it disconnects
+ * @param {WebSocket} ws - Socket to remove
+ */
+export function leaveAllAuctionRooms(ws: WebSocket): void {
+  const auctions = socketRooms.get(ws);
+  if (!auctions) {
+    return;
+  }
+
+  for (const auctionId of Array.from(auctions)) {
+    leaveAuctionRoom(auctionId, ws);
+  }
+}
+
+/**
+ * Get the sockets subscribed to an auction
+ * @param {string} auctionId - Auction ID
+ * @returns {Set<WebSocket>} Subscribed sockets
+ */
+export function getAuctionRoom(auctionId: string): Set<WebSocket> {
+  return rooms.get(auctionId) || new Set();
+}
+
+/**
+ * Get the auctions a socket follows
+ * @param {WebSocket} ws - Socket
+ * @returns {string[]} Auction IDs
+ */
+export function getSubscribedAuctions(ws: WebSocket): string[] {
+  return Array.from(socketRooms.get(ws) || []);
+}
+
+/**
+ * Send a message to every open socket watching an auction
+ * @param {string} auctionId - Auction ID
+ * @param {Object} message - Message to serialize and send
+ * @returns {number} Number of sockets the message was sent to
+ */
+export function broadcastToAuction(auctionId: string, message: object): number {
+  const data = JSON.stringify(message);
+  let sent = 0;
+
+  getAuctionRoom(auctionId).forEach((client) => {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(data);
+      sent++;
+    }
+  });
+
+  logger.ws(`Broadcast ${(message as { type?: string }).type ?? 'message'} for auction ${auctionId} to ${sent} subscribers`);
+  return sent;
+}
@@ -0,0 +1,173 @@
+/**
+ * Auction scheduler
+ * This file moves auctions through `active → finalizing → ended` once their end time passes,
+ * with sealed-bid auctions passing through `revealing` first, and ticks Dutch auction prices down
+ */
+import logger from '../utils/logger.js';
+import { beginRevealPhase, getAllAuctionSessions, getAuctionSession, runForAuction, settleAuctionSession } from './appSessions.js';
+import { allCommitmentsRevealed, isSealedFormat } from './sealedBids.js';
+import { getDutchPrice } from './dutchPricing.js';
+import { AuctionSession } from '../types.js';
+
+type AuctionCallback = (auction: AuctionSession) => void;
+
+export interface AuctionSchedulerEvents {
+  // Called with each auction that ends
+  onAuctionEnded: AuctionCallback;
+  // Called with each sealed-bid auction that stops taking commitments
+  onRevealStarted: AuctionCallback;
+  // Called with each active Dutch auction whose price has dropped, and its new price
+  onPriceTick: (auction: AuctionSession, price: bigint) => void;
+}
+
+// Delay before retrying a settlement the ClearNode has not confirmed
+const FINALIZE_RETRY_MS = 30000;
+
+// Auctions currently being settled by the scheduler
+const inFlight = new Set<string>();
+
+// Last settlement attempt per auction
+const lastAttempt = new Map<string, number>();
+
+// Last price announced per Dutch auction
+const lastTickPrice = new Map<string, bigint>();
+
+/**
+ * Announce the new price of each active Dutch auction whose price has dropped
+ * @param {number} now - Current time in milliseconds
+ * @param {AuctionSchedulerEvents['onPriceTick']} onPriceTick - Called with each auction and its new price
+ */
+function tickDutchPrices(now: number, onPriceTick: AuctionSchedulerEvents['onPriceTick']): void {
+  getAllAuctionSessions()
+    .filter((auction) => auction.format === 'dutch')
+    .forEach((auction) => {
+      if (auction.status !== 'active' || now >= auction.endTime) {
+        lastTickPrice.delete(auction.auctionId);
+        return;
+      }
+
+      const price = getDutchPrice(auction, now);
+      if (lastTickPrice.get(auction.auctionId) !== price) {
+        lastTickPrice.set(auction.auctionId, price);
+        onPriceTick(auction, price);
+      }
+    });
+}
+
+/**
+ * Check whether an auction should be settled now
+ * @param {AuctionSession} auction - Auction session
+ * @param {number} now - Current time in milliseconds
+ * @returns {boolean} Whether settlement should be attempted
+ */
+function isDue(auction: AuctionSession, now: number): boolean {
+  if (inFlight.has(auction.auctionId)) {
+    return false;
+  }
+
+  if (auction.status === 'active') {
+    return now >= auction.endTime;
+  }
+
+  if (auction.status === 'revealing') {
+    // Settle once everyone has revealed rather than waiting out the window
+    return now >= (auction.revealEndTime ?? auction.endTime) || allCommitmentsRevealed(auction);
+  }
+
+  if (auction.status === 'finalizing') {
+    // Give an in-progress settlement time to complete before retrying it
+    const lastTransition = auction.statusHistory[auction.statusHistory.length - 1]?.timestamp ?? 0;
+    const since = Math.max(lastTransition, lastAttempt.get(auction.auctionId) ?? 0);
+    return now - since >= FINALIZE_RETRY_MS;
+  }
+
+  return false;
+}
+
+/**
+ * Settle an expired auction and notify listeners once it has ended
+ * @param {string} auctionId - Auction ID
+ * @param {AuctionCallback} onAuctionEnded - Called with the ended auction
+ */
+async function finalizeAuction(auctionId: string, onAuctionEnded: AuctionCallback): Promise<void> {
+  inFlight.add(auctionId);
+  lastAttempt.set(auctionId, Date.now());
+
+  try {
+    logger.game(`Auction ${auctionId} has expired, settling`);
+    // Settle after any bid already in flight, unless that bid extended the auction
+    const success = await runForAuction(auctionId, async () => {
+      const current = getAuctionSession(auctionId);
+      if (current?.status === 'active' && Date.now() < current.endTime) {
+        return null;
+      }
+      return settleAuctionSession(auctionId);
+    });
+    if (success === null) {
+      lastAttempt.delete(auctionId);
+      logger.game(`Auction ${auctionId} was extended before it settled`);
+      return;
+    }
+
+    const auction = getAuctionSession(auctionId);
+
+    if (success && auction?.status === 'ended') {
+      lastAttempt.delete(auctionId);
+      onAuctionEnded(auction);
+    } else {
+      logger.warn(`Settlement of auction ${auctionId} not confirmed, retrying in ${FINALIZE_RETRY_MS}ms`);
+    }
+  } catch (error) {
+    logger.error(`Error finalizing auction ${auctionId}:`, error);
+  } finally {
+    inFlight.delete(auctionId);
+  }
+}
+
+/**
+ * Close a sealed-bid auction for commitments and notify listeners once reveals open
+ * @param {string} auctionId - Auction ID
+ * @param {AuctionCallback} onRevealStarted - Called with the auction taking reveals
+ */
+async function startRevealPhase(auctionId: string, onRevealStarted: AuctionCallback): Promise<void> {
+  inFlight.add(auctionId);
+
+  try {
+    // Commitments already in flight are recorded before bidding closes
+    const started = await runForAuction(auctionId, async () => beginRevealPhase(auctionId));
+    if (started) {
+      onRevealStarted(getAuctionSession(auctionId)!);
+    }
+  } catch (error) {
+    logger.error(`Error opening the reveal phase of auction ${auctionId}:`, error);
+  } finally {
+    inFlight.delete(auctionId);
+  }
+}
+
+/**
+ * Starts a timer that closes expired auctions and announces Dutch price drops
+ * @param {AuctionSchedulerEvents} events - Lifecycle callbacks
+ * @param {number} interval - Check interval in milliseconds (default: 1000)
+ * @returns {NodeJS.Timeout} The interval timer
+ */
+export function startAuctionScheduler(events: AuctionSchedulerEvents, interval: number = 1000): NodeJS.Timeout {
+  return setInterval(() => {
+    const now = Date.now();
+
+    getAllAuctionSessions()
+      .filter((auction) => isDue(auction, now))
+      .forEach((auction) => {
+        // Sealed bids with commitments to reveal open a reveal phase instead of settling
+        const hasCommitments = (auction.commitments?.length ?? 0) > 0;
+        if (auction.status === 'active' && isSealedFormat(auction.format) && hasCommitments) {
+          startRevealPhase(auction.auctionId, events.onRevealStarted);
+          return;
+        }
+
+        finalizeAuction(auction.auctionId, events.onAuctionEnded);
+      });
+
+    tickDutchPrices(now, events.onPriceTick);
+  }, interval);
+}
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getMinimumIncrement, getMinimumNextBid, isValidIncrementPolicy } from './bidIncrements.js';
+import { IncrementPolicy } from '../types.js';
+import { buildAuctionSession } from '../test/fixtures.js';
+
+const session = (currentBid: string, incrementPolicy?: IncrementPolicy) => buildAuctionSession({ currentBid, incrementPolicy });
+
+describe('isValidIncrementPolicy', () => {
+  it('accepts well-formed policies', () => {
+    assert.ok(isValidIncrementPolicy({ type: 'absolute', amount: '500' }));
+    assert.ok(isValidIncrementPolicy({ type: 'percentage', basisPoints: 250 }));
+    assert.ok(isValidIncrementPolicy({
+      type: 'tiered',
+      tiers: [{ from: '0', increment: '10' }, { from: '1000', increment: '100' }]
+    }));
+  });
+
+  it('rejects zero, fractional and out-of-range amounts', () => {
+    assert.equal(isValidIncrementPolicy({ type: 'absolute', amount: '0' }), false);
+    assert.equal(isValidIncrementPolicy({ type: 'absolute', amount: '1.5' }), false);
+    assert.equal(isValidIncrementPolicy({ type: 'percentage', basisPoints: 0 }), false);
+    assert.equal(isValidIncrementPolicy({ type: 'percentage', basisPoints: 10001 }), false);
+  });
+
+  it('rejects tiers out of ascending order', () => {
+    assert.equal(isValidIncrementPolicy({
+      type: 'tiered',
+      tiers: [{ from: '1000', increment: '100' }, { from: '0', increment: '10' }]
+    }), false);
+    assert.equal(isValidIncrementPolicy({ type: 'tiered', tiers: [] }), false);
+  });
+
+  it('rejects unknown policy types', () => {
+    assert.equal(isValidIncrementPolicy({ type: 'fixed' } as unknown as IncrementPolicy), false);
+  });
+});
+
+describe('getMinimumIncrement', () => {
+  it('defaults to one base unit without a policy', () => {
+    assert.equal(getMinimumIncrement(undefined, 1000n), 1n);
+  });
+
+  it('rounds percentage increments up', () => {
+    assert.equal(getMinimumIncrement({ type: 'percentage', basisPoints: 100 }, 150n), 2n);
+    assert.equal(getMinimumIncrement({ type: 'percentage', basisPoints: 100 }, 0n), 1n);
+  });
+
+  it('uses the highest tier the price has reached', () => {
+    const policy: IncrementPolicy = {
+      type: 'tiered',
+      tiers: [{ from: '100', increment: '10' }, { from: '1000', increment: '100' }]
+    };
+    assert.equal(getMinimumIncrement(policy, 50n), 1n);
+    assert.equal(getMinimumIncrement(policy, 999n), 10n);
+    assert.equal(getMinimumIncrement(policy, 1000n), 100n);
+  });
+});
+
+describe('getMinimumNextBid', () => {
+  it('adds the increment to the current bid', () => {
+    assert.equal(getMinimumNextBid(session('1000000', { type: 'absolute', amount: '50000' })), 1050000n);
+    assert.equal(getMinimumNextBid(session('1000000')), 1000001n);
+  });
+});
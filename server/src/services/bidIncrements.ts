@@ -0,0 +1,75 @@
+/**
+ * Bid increment rules
+ * This file computes the minimum valid next bid for an auction from its increment policy
+ */
+import { isAmount } from '../utils/amounts.js';
+import { AuctionSession, IncrementPolicy } from '../types.js';
+
+/**
+ * Check that an increment policy is well formed
+ * @param {IncrementPolicy} policy - Increment policy
+ * @returns {boolean} Whether the policy is valid
+ */
+export function isValidIncrementPolicy(policy: IncrementPolicy): boolean {
+  if (!policy || typeof policy !== 'object') {
+    return false;
+  }
+
+  switch (policy.type) {
+    case 'absolute':
+      return isAmount(policy.amount) && BigInt(policy.amount) > 0n;
+    case 'percentage':
+      return Number.isInteger(policy.basisPoints) && policy.basisPoints > 0 && policy.basisPoints <= 10000;
+    case 'tiered':
+      return Array.isArray(policy.tiers)
+        && policy.tiers.length > 0
+        && policy.tiers.every((tier, index) =>
+          isAmount(tier.from)
+          && isAmount(tier.increment)
+          && BigInt(tier.increment) > 0n
+          // Tiers must be listed in ascending price order
+          && (index === 0 || BigInt(tier.from) > BigInt(policy.tiers[index - 1].from))
+        );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Get the minimum increment over a price
+ * @param {IncrementPolicy | undefined} policy - Increment policy, if any
+ * @param {bigint} price - Current price in base units
+ * @returns {bigint} Minimum increment in base units (at least 1)
+ */
+export function getMinimumIncrement(policy: IncrementPolicy | undefined, price: bigint): bigint {
+  let increment = 1n;
+
+  switch (policy?.type) {
+    case 'absolute':
+      increment = BigInt(policy.amount);
+      break;
+    case 'percentage':
+      // Round up so a percentage never rounds down to a zero increment
+      increment = (price * BigInt(policy.basisPoints) + 9999n) / 10000n;
+      break;
+    case 'tiered': {
+      const tier = [...policy.tiers].reverse().find((t) => BigInt(t.from) <= price);
+      if (tier) {
+        increment = BigInt(tier.increment);
+      }
+      break;
+    }
+  }
+
+  return increment > 0n ? increment : 1n;
+}
+
+/**
+ * Get the lowest amount the next bid on an auction may be
+ * @param {AuctionSession} session - Auction session
+ * @returns {bigint} Minimum next bid in base units
+ */
+export function getMinimumNextBid(session: AuctionSession): bigint {
+  const currentBid = BigInt(session.currentBid);
+  return currentBid + getMinimumIncrement(session.incrementPolicy, currentBid);
+}
@@ -0,0 +1,120 @@
+/**
+ * Auction cancellation
+ * This file decides when sellers may withdraw auctions and what the app session pays out when they do
+ */
+import { getActiveLocks } from './escrow.js';
+import { isAmount } from '../utils/amounts.js';
+import { AuctionSession, SettlementAllocation } from '../types.js';
+
+/**
+ * Check that a cancellation penalty is an amount in base units
+ * @param {string} penalty - Penalty the seller escrows to be allowed to cancel after bidding starts
+ * @returns {boolean} Whether the penalty is valid
+ */
+export function isValidCancellationPenalty(penalty: string): boolean {
+  return isAmount(penalty) && BigInt(penalty) > 0n;
+}
+
+/**
+ * Get the seller's allocation while an auction runs
+ * A seller who configured a cancellation penalty keeps it escrowed in the app session until settlement.
+ * @param {AuctionSession} session - Auction session
+ * @returns {string} Seller's escrowed amount in base units
+ */
+export function getSellerBond(session: AuctionSession): string {
+  return session.cancellationPenalty ?? '0';
+}
+
+/**
+ * Add the seller's escrowed penalty back to their settlement allocation
+ * @param {AuctionSession} session - Auction session being settled
+ * @param {SettlementAllocation[]} allocations - Settlement allocations
+ * @returns {SettlementAllocation[]} Allocations with the seller's bond returned
+ */
+export function returnSellerBond(session: AuctionSession, allocations: SettlementAllocation[]): SettlementAllocation[] {
+  const bond = BigInt(getSellerBond(session));
+  return allocations.map((allocation) => (
+    allocation.participant === session.seller
+      ? { ...allocation, amount: (BigInt(allocation.amount) + bond).toString() }
+      : allocation
+  ));
+}
+
+/**
+ * Get everyone who has bid on an auction, in order of their first bid
+ * @param {AuctionSession} session - Auction session
+ * @returns {string[]} Bidder addresses
+ */
+function getBidders(session: AuctionSession): string[] {
+  const bidders = [
+    ...session.bids.map((bid) => bid.bidder),
+    ...(session.commitments || []).map((commitment) => commitment.bidder),
+    ...(session.unitBids || []).map((bid) => bid.bidder)
+  ];
+  return bidders.filter((bidder, index) => bidders.indexOf(bidder) === index);
+}
+
+/**
+ * Check whether an auction has taken any bid, sealed or not
+ * @param {AuctionSession} session - Auction session
+ * @returns {boolean} Whether anyone has bid
+ */
+export function hasBids(session: AuctionSession): boolean {
+  return getBidders(session).length > 0;
+}
+
+/**
+ * Check whether the seller may cancel an auction now
+ * Auctions can be cancelled until the first bid, and afterwards only if the seller escrowed a penalty.
+ * @param {AuctionSession} session - Auction session
+ * @returns {boolean} Whether the auction can be cancelled
+ */
+export function canCancelAuction(session: AuctionSession): boolean {
+  return session.status === 'active' && (!hasBids(session) || BigInt(getSellerBond(session)) > 0n);
+}
+
+/**
+ * Get the penalty a cancellation pays out to bidders
+ * @param {AuctionSession} session - Auction session
+ * @returns {string} The seller's penalty once anyone has bid, otherwise 0
+ */
+export function getCancellationPayout(session: AuctionSession): string {
+  return hasBids(session) ? getSellerBond(session) : '0';
+}
+
+/**
+ * Build the allocations that close a cancelled auction's app session
+ * Every bidder gets back what they have locked. Without bids the seller keeps their penalty;
+ * otherwise it is shared equally among the bidders, with any remainder to the earliest bidder.
+ * @param {AuctionSession} session - Auction session being cancelled
+ * @param {string} asset - Asset held in the app session
+ * @returns {{ penalty: string, allocations: SettlementAllocation[] }} Penalty paid out and the closing allocations
+ */
+export function buildCancellationAllocations(session: AuctionSession, asset: string) {
+  const bond = BigInt(getSellerBond(session));
+  const bidders = getBidders(session);
+  const locks = getActiveLocks(session);
+
+  const penalty = BigInt(getCancellationPayout(session));
+  const share = bidders.length > 0 ? penalty / BigInt(bidders.length) : 0n;
+  const remainder = penalty - share * BigInt(bidders.length);
+
+  return {
+    penalty: penalty.toString(),
+    allocations: [
+      {
+        participant: session.seller as `0x${string}`,
+        asset,
+        amount: (bond - penalty).toString(),
+      },
+      ...bidders.map((bidder, index) => {
+        const locked = BigInt(locks.find((lock) => lock.participant === bidder)?.amount ?? '0');
+        return {
+          participant: bidder as `0x${string}`,
+          asset,
+          amount: (locked + share + (index === 0 ? remainder : 0n)).toString(),
+        };
+      })
+    ]
+  };
+}
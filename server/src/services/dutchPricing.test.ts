@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getDutchPrice, isValidDutchSchedule } from './dutchPricing.js';
+import { DutchPriceSchedule } from '../types.js';
+import { CREATED_AT, buildAuctionSession } from '../test/fixtures.js';
+
+const session = (dutchSchedule?: DutchPriceSchedule) => buildAuctionSession({
+  format: 'dutch',
+  startingPrice: '1000',
+  currentBid: '1000',
+  dutchSchedule
+});
+
+describe('isValidDutchSchedule', () => {
+  it('accepts schedules that fall from the starting price', () => {
+    assert.ok(isValidDutchSchedule({ type: 'linear', floorPrice: '100' }, '1000'));
+    assert.ok(isValidDutchSchedule({ type: 'stepwise', floorPrice: '0', decrement: '50', interval: 10 }, '1000'));
+  });
+
+  it('rejects a floor at or above the starting price', () => {
+    assert.equal(isValidDutchSchedule({ type: 'linear', floorPrice: '1000' }, '1000'), false);
+    assert.equal(isValidDutchSchedule({ type: 'linear', floorPrice: '100' }, 'abc'), false);
+  });
+
+  it('rejects stepwise schedules without a positive decrement and interval', () => {
+    assert.equal(isValidDutchSchedule({ type: 'stepwise', floorPrice: '0', decrement: '0', interval: 10 }, '1000'), false);
+    assert.equal(isValidDutchSchedule({ type: 'stepwise', floorPrice: '0', decrement: '50', interval: 0 }, '1000'), false);
+  });
+});
+
+describe('getDutchPrice', () => {
+  it('holds the starting price without a schedule or before the auction opens', () => {
+    assert.equal(getDutchPrice(session(), CREATED_AT + 50_000), 1000n);
+    assert.equal(getDutchPrice(session({ type: 'linear', floorPrice: '0' }), CREATED_AT - 5_000), 1000n);
+  });
+
+  it('falls evenly over the duration on a linear schedule', () => {
+    const linear = session({ type: 'linear', floorPrice: '200' });
+    assert.equal(getDutchPrice(linear, CREATED_AT), 1000n);
+    assert.equal(getDutchPrice(linear, CREATED_AT + 50_000), 600n);
+    assert.equal(getDutchPrice(linear, CREATED_AT + 100_000), 200n);
+  });
+
+  it('drops by the decrement each full interval on a stepwise schedule', () => {
+    const stepwise = session({ type: 'stepwise', floorPrice: '100', decrement: '150', interval: 10 });
+    assert.equal(getDutchPrice(stepwise, CREATED_AT + 9_999), 1000n);
+    assert.equal(getDutchPrice(stepwise, CREATED_AT + 20_000), 700n);
+  });
+
+  it('never goes below the floor', () => {
+    const stepwise = session({ type: 'stepwise', floorPrice: '100', decrement: '150', interval: 10 });
+    assert.equal(getDutchPrice(stepwise, CREATED_AT + 90_000), 100n);
+    assert.equal(getDutchPrice(session({ type: 'linear', floorPrice: '200' }), CREATED_AT + 500_000), 200n);
+  });
+});
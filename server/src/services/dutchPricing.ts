@@ -0,0 +1,64 @@
+/**
+ * Dutch auction pricing
+ * This file computes the falling price of descending-price auctions from their schedule
+ */
+import { isAmount } from '../utils/amounts.js';
+import { AuctionSession, DutchPriceSchedule } from '../types.js';
+
+/**
+ * Check that a Dutch price schedule is well formed and falls from the starting price
+ * @param {DutchPriceSchedule} schedule - Price schedule
+ * @param {string} startingPrice - Price the auction opens at, in base units
+ * @returns {boolean} Whether the schedule is valid
+ */
+export function isValidDutchSchedule(schedule: DutchPriceSchedule, startingPrice: string): boolean {
+  if (!schedule || typeof schedule !== 'object'
+    || !isAmount(schedule.floorPrice)
+    || !isAmount(startingPrice) || BigInt(schedule.floorPrice) >= BigInt(startingPrice)) {
+    return false;
+  }
+
+  switch (schedule.type) {
+    case 'linear':
+      return true;
+    case 'stepwise':
+      return isAmount(schedule.decrement)
+        && BigInt(schedule.decrement) > 0n
+        && Number.isInteger(schedule.interval) && schedule.interval > 0;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Get a Dutch auction's price at a point in time
+ * The price holds at the starting price before the auction opens and at the floor once it is reached.
+ * @param {AuctionSession} session - Dutch auction session
+ * @param {number} at - Time in milliseconds
+ * @returns {bigint} Price in base units
+ */
+export function getDutchPrice(session: AuctionSession, at: number): bigint {
+  const startingPrice = BigInt(session.startingPrice);
+  const schedule = session.dutchSchedule;
+  if (!schedule) {
+    return startingPrice;
+  }
+
+  const floorPrice = BigInt(schedule.floorPrice);
+  const elapsed = BigInt(Math.max(0, at - session.createdAt));
+  let drop: bigint;
+
+  switch (schedule.type) {
+    case 'linear': {
+      const duration = BigInt(Math.max(1, session.endTime - session.createdAt));
+      drop = (startingPrice - floorPrice) * elapsed / duration;
+      break;
+    }
+    case 'stepwise':
+      drop = BigInt(schedule.decrement) * (elapsed / BigInt(schedule.interval * 1000));
+      break;
+  }
+
+  const price = startingPrice - drop;
+  return price > floorPrice ? price : floorPrice;
+}
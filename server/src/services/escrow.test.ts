@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  SELLER_WEIGHT,
+  buildEscrowDefinition,
+  getActiveLocks,
+  getEscrowParticipants,
+  recordEscrow,
+  releaseAllEscrow
+} from './escrow.js';
+import { ALICE, BOB, SELLER, buildAuctionSession } from '../test/fixtures.js';
+
+const allocation = (participant: string, amount: string) => ({
+  participant: participant as `0x${string}`,
+  asset: 'usdc',
+  amount
+});
+
+describe('buildEscrowDefinition', () => {
+  it('lists the seller first as the only signer', () => {
+    assert.deepEqual(buildEscrowDefinition(SELLER, [ALICE, SELLER, BOB]), {
+      participants: [SELLER, ALICE, BOB],
+      weights: [SELLER_WEIGHT, 0, 0],
+      quorum: SELLER_WEIGHT
+    });
+  });
+});
+
+describe('recordEscrow', () => {
+  it('locks the leader and releases the outbid bidder in the same update', () => {
+    const session = buildAuctionSession();
+    recordEscrow(session, [allocation(SELLER, '0'), allocation(ALICE, '200')], 1);
+    recordEscrow(session, [allocation(SELLER, '0'), allocation(BOB, '300'), allocation(ALICE, '0')], 2);
+
+    assert.deepEqual(session.escrow, [
+      { participant: ALICE, amount: '0', status: 'released', updatedAt: 2 },
+      { participant: BOB, amount: '300', status: 'locked', updatedAt: 2 }
+    ]);
+    assert.deepEqual(getActiveLocks(session).map((lock) => lock.participant), [BOB]);
+  });
+
+  it('leaves the seller out of the escrow ledger', () => {
+    const session = buildAuctionSession();
+    recordEscrow(session, [allocation(SELLER, '50')], 1);
+
+    assert.deepEqual(session.escrow, []);
+  });
+});
+
+describe('releaseAllEscrow', () => {
+  it('releases every lock at settlement and keeps earlier releases as they were', () => {
+    const session = buildAuctionSession({
+      escrow: [
+        { participant: ALICE, amount: '0', status: 'released', updatedAt: 2 },
+        { participant: BOB, amount: '300', status: 'locked', updatedAt: 2 }
+      ]
+    });
+    releaseAllEscrow(session, 5);
+
+    assert.deepEqual(session.escrow, [
+      { participant: ALICE, amount: '0', status: 'released', updatedAt: 2 },
+      { participant: BOB, amount: '0', status: 'released', updatedAt: 5 }
+    ]);
+    assert.deepEqual(getActiveLocks(session), []);
+  });
+});
+
+describe('getEscrowParticipants', () => {
+  it('keeps released bidders, who stay in the app session', () => {
+    const session = buildAuctionSession();
+    recordEscrow(session, [allocation(ALICE, '200')], 1);
+    recordEscrow(session, [allocation(BOB, '300'), allocation(ALICE, '0')], 2);
+
+    assert.deepEqual(getEscrowParticipants(session), [ALICE, BOB]);
+  });
+});
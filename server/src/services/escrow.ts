@@ -0,0 +1,87 @@
+/**
+ * Auction escrow
+ * This file tracks the funds each bidder has locked in an auction's app session
+ */
+import { AuctionSession, EscrowLock, SettlementAllocation } from '../types.js';
+
+// Weight the seller holds in every auction app session; bidders hold none
+export const SELLER_WEIGHT = 100;
+
+/**
+ * Build the app session definition fields for a seller and the bidders with allocations
+ * The server signs for the seller, so the seller alone meets the quorum and bidders never need
+ * to co-sign a bid; they are listed so the ClearNode holds their funds in the session.
+ * @param {string} seller - Seller's address
+ * @param {string[]} bidders - Addresses of bidders with an allocation in the session
+ * @returns {{ participants: Array, weights: number[], quorum: number }} Definition fields
+ */
+export function buildEscrowDefinition(seller: string, bidders: string[]) {
+  const participants = [seller, ...bidders.filter((bidder) => bidder !== seller)] as `0x${string}`[];
+  return {
+    participants,
+    weights: participants.map((_, index) => (index === 0 ? SELLER_WEIGHT : 0)),
+    quorum: SELLER_WEIGHT
+  };
+}
+
+/**
+ * Get the bidders that currently have funds locked in an auction
+ * @param {AuctionSession} session - Auction session
+ * @returns {EscrowLock[]} Locks that have not been released
+ */
+export function getActiveLocks(session: AuctionSession): EscrowLock[] {
+  return (session.escrow || []).filter((lock) => lock.status === 'locked');
+}
+
+/**
+ * Get every bidder who has had funds escrowed in an auction, locked or since released
+ * They all stay participants of the app session, so its updates and close list each of them.
+ * @param {AuctionSession} session - Auction session
+ * @returns {string[]} Bidder addresses in order of their first lock
+ */
+export function getEscrowParticipants(session: AuctionSession): string[] {
+  return (session.escrow || []).map((lock) => lock.participant);
+}
+
+/**
+ * Record the bidder allocations the ClearNode accepted as the auction's escrow ledger
+ * A positive allocation is a lock; a zero allocation releases the bidder's funds back to them.
+ * The seller's allocation is not escrow and is skipped.
+ * @param {AuctionSession} session - Auction session to update
+ * @param {SettlementAllocation[]} allocations - Allocations of the accepted app session state
+ * @param {number} at - Time of the update in milliseconds
+ */
+export function recordEscrow(session: AuctionSession, allocations: SettlementAllocation[], at: number): void {
+  const escrow = [...(session.escrow || [])];
+
+  allocations
+    .filter((allocation) => allocation.participant !== session.seller)
+    .forEach((allocation) => {
+      const lock: EscrowLock = {
+        participant: allocation.participant,
+        amount: allocation.amount,
+        status: BigInt(allocation.amount) > 0n ? 'locked' : 'released',
+        updatedAt: at
+      };
+      const index = escrow.findIndex((entry) => entry.participant === allocation.participant);
+      if (index === -1) {
+        escrow.push(lock);
+      } else {
+        escrow[index] = lock;
+      }
+    });
+
+  session.escrow = escrow;
+}
+
+/**
+ * Mark every lock released once the auction's app session has closed
+ * Winners' funds have gone to the seller and everyone else has been refunded, so nothing stays locked.
+ * @param {AuctionSession} session - Settled auction session
+ * @param {number} at - Time of settlement in milliseconds
+ */
+export function releaseAllEscrow(session: AuctionSession, at: number): void {
+  session.escrow = (session.escrow || []).map((lock) => (
+    lock.status === 'locked' ? { ...lock, amount: '0', status: 'released', updatedAt: at } : lock
+  ));
+}
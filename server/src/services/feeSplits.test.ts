@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyFeeSplits, getFeePayees, isValidFeeSplits } from './feeSplits.js';
+import { RoyaltySplit } from '../types.js';
+import { ALICE as WINNER, SELLER, SERVER, amountOf, buildAuctionSession } from '../test/fixtures.js';
+
+const CREATOR = '0x00000000000000000000000000000000000000D1';
+
+const session = (platformFeeBps: number, royalties: RoyaltySplit[] = []) => buildAuctionSession({ platformFeeBps, royalties });
+
+const allocation = (participant: string, amount: string) => ({
+  participant: participant as `0x${string}`,
+  asset: 'usdc',
+  amount
+});
+
+describe('isValidFeeSplits', () => {
+  it('accepts distinct recipients within the proceeds', () => {
+    assert.ok(isValidFeeSplits([{ recipient: CREATOR, basisPoints: 500 }], 250));
+    assert.ok(isValidFeeSplits([], 0));
+  });
+
+  it('rejects duplicate or invalid recipients', () => {
+    assert.equal(isValidFeeSplits([
+      { recipient: CREATOR, basisPoints: 100 },
+      { recipient: CREATOR.toLowerCase(), basisPoints: 100 }
+    ], 0), false);
+    assert.equal(isValidFeeSplits([{ recipient: 'not-an-address', basisPoints: 100 }], 0), false);
+  });
+
+  it('rejects shares above the whole of the proceeds', () => {
+    assert.equal(isValidFeeSplits([{ recipient: CREATOR, basisPoints: 9800 }], 300), false);
+    assert.equal(isValidFeeSplits([{ recipient: CREATOR, basisPoints: 0 }], 0), false);
+  });
+});
+
+describe('getFeePayees', () => {
+  it('lists the platform fee first and leaves out zero shares', () => {
+    assert.deepEqual(getFeePayees(session(250, [{ recipient: CREATOR, basisPoints: 500 }])), [
+      { recipient: SERVER, basisPoints: 250 },
+      { recipient: CREATOR, basisPoints: 500 }
+    ]);
+    assert.deepEqual(getFeePayees(session(0)), []);
+  });
+});
+
+describe('applyFeeSplits', () => {
+  it('pays the fee and royalties out of the seller allocation', () => {
+    const result = applyFeeSplits(
+      session(250, [{ recipient: CREATOR, basisPoints: 500 }]),
+      [allocation(SELLER, '10000'), allocation(WINNER, '0')],
+      '10000'
+    );
+
+    assert.equal(amountOf(result, SELLER), '9250');
+    assert.equal(amountOf(result, SERVER), '250');
+    assert.equal(amountOf(result, CREATOR), '500');
+  });
+
+  it('charges only the sale price, not other seller proceeds such as forfeited bonds', () => {
+    const result = applyFeeSplits(session(1000), [allocation(SELLER, '1100')], '1000');
+
+    assert.equal(amountOf(result, SELLER), '1000');
+    assert.equal(amountOf(result, SERVER), '100');
+  });
+
+  it('charges nothing without a sale price', () => {
+    const allocations = [allocation(SELLER, '50')];
+    const result = applyFeeSplits(session(1000), allocations, '0');
+
+    assert.deepEqual(result, allocations);
+  });
+
+  it('rounds shares down and leaves the remainder with the seller', () => {
+    const result = applyFeeSplits(session(333), [allocation(SELLER, '100')], '100');
+
+    assert.equal(amountOf(result, SERVER), '3');
+    assert.equal(amountOf(result, SELLER), '97');
+  });
+
+  it('adds a share to a payee who already has an allocation', () => {
+    const result = applyFeeSplits(
+      session(0, [{ recipient: CREATOR, basisPoints: 1000 }]),
+      [allocation(SELLER, '1000'), allocation(CREATOR, '40')],
+      '1000'
+    );
+
+    assert.equal(amountOf(result, CREATOR), '140');
+    assert.equal(result.length, 2);
+  });
+});
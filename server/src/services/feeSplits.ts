@@ -0,0 +1,91 @@
+/**
+ * Fee splits
+ * This file routes the platform fee and creator royalties out of a sale's proceeds at settlement
+ */
+import { ethers } from 'ethers';
+import { AuctionSession, RoyaltySplit, SettlementAllocation } from '../types.js';
+
+// Basis points in the whole of the proceeds
+export const BASIS_POINTS = 10000;
+
+/**
+ * Check that royalty splits name distinct recipients and leave the seller a share after the platform fee
+ * @param {RoyaltySplit[]} royalties - Creator royalty splits
+ * @param {number} platformFeeBps - Platform fee in basis points
+ * @returns {boolean} Whether the splits are valid
+ */
+export function isValidFeeSplits(royalties: RoyaltySplit[], platformFeeBps: number): boolean {
+  if (!Array.isArray(royalties) || !Number.isInteger(platformFeeBps) || platformFeeBps < 0) {
+    return false;
+  }
+
+  const recipients = royalties.map((split) => (
+    split && typeof split.recipient === 'string' && ethers.isAddress(split.recipient)
+      ? ethers.getAddress(split.recipient)
+      : null
+  ));
+  if (recipients.some((recipient) => recipient === null) || new Set(recipients).size !== recipients.length) {
+    return false;
+  }
+
+  if (!royalties.every((split) => Number.isInteger(split.basisPoints) && split.basisPoints > 0)) {
+    return false;
+  }
+
+  const total = royalties.reduce((sum, split) => sum + split.basisPoints, platformFeeBps);
+  return total <= BASIS_POINTS;
+}
+
+/**
+ * Get everyone paid out of an auction's proceeds besides the seller
+ * @param {AuctionSession} session - Auction session
+ * @returns {RoyaltySplit[]} The platform fee to the server address, then the creator royalties
+ */
+export function getFeePayees(session: AuctionSession): RoyaltySplit[] {
+  return [
+    { recipient: session.serverAddress, basisPoints: session.platformFeeBps ?? 0 },
+    ...(session.royalties || [])
+  ].filter((payee) => payee.basisPoints > 0);
+}
+
+/**
+ * Pay the platform fee and royalties on a sale out of the seller's allocation in a settlement
+ * Fees are shares of the sale price only; anything else the seller receives, such as forfeited
+ * sealed-bid bonds, is not charged, and an unsold auction has no sale price to charge.
+ * Each share is rounded down, so any remainder stays with the seller. A payee who already has an
+ * allocation, such as a creator who also bid, receives their share on top of it.
+ * @param {AuctionSession} session - Auction session being settled
+ * @param {SettlementAllocation[]} allocations - Settlement allocations with the seller's full proceeds
+ * @param {string} salePrice - Total the winners paid for the sale in base units, '0' when unsold
+ * @returns {SettlementAllocation[]} Allocations with the fee and royalties routed to their recipients
+ */
+export function applyFeeSplits(session: AuctionSession, allocations: SettlementAllocation[], salePrice: string): SettlementAllocation[] {
+  const sellerIndex = allocations.findIndex((allocation) => allocation.participant === session.seller);
+  if (sellerIndex === -1) {
+    return allocations;
+  }
+
+  const { asset, amount } = allocations[sellerIndex];
+  const price = BigInt(salePrice);
+  const payouts = getFeePayees(session)
+    .map(({ recipient, basisPoints }) => ({
+      participant: recipient as `0x${string}`,
+      amount: price * BigInt(basisPoints) / BigInt(BASIS_POINTS)
+    }))
+    .filter((payout) => payout.amount > 0n);
+
+  const result = allocations.map((allocation) => ({ ...allocation }));
+  const fees = payouts.reduce((total, payout) => total + payout.amount, 0n);
+  result[sellerIndex].amount = (BigInt(amount) - fees).toString();
+
+  payouts.forEach((payout) => {
+    const existing = result.find((allocation) => allocation.participant === payout.participant);
+    if (existing) {
+      existing.amount = (BigInt(existing.amount) + payout.amount).toString();
+    } else {
+      result.push({ participant: payout.participant, asset, amount: payout.amount.toString() });
+    }
+  });
+
+  return result;
+}
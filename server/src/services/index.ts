@@ -6,6 +6,8 @@
 export { 
   initializeRPCClient, 
   getRPCClient,
+  getResponseResult,
+  getResponseList,
   NitroliteRPCClient, 
   WSStatus 
 } from './nitroliteRPC.js';
@@ -15,7 +17,115 @@ export {
   createAuctionSession,
   updateAuctionBid,
   settleAuctionSession,
+  cancelAuctionSession,
+  reconcileSettlements,
+  recordFinalization,
   getAuctionSession,
+  getAuctionBids,
   hasAuctionSession,
-  getAllAuctionSessions
+  getAllAuctionSessions,
+  restoreAuctionSessions,
+  setAuctionRepository,
+  isValidSoftCloseRule,
+  isReserveMet,
+  commitSealedBid,
+  revealSealedBid,
+  beginRevealPhase,
+  acceptDutchPrice,
+  placeUnitBid,
+  setProxyBid,
+  runProxyBids,
+  runForAuction
 } from './appSessions.js';
+
+// Auction lifecycle
+export { startAuctionScheduler, type AuctionSchedulerEvents } from './auctionScheduler.js';
+
+// Sealed-bid commit–reveal
+export {
+  isSealedFormat,
+  computeBidCommitment,
+  isValidSealedBidRule,
+  getRevealedCommitments,
+  allCommitmentsRevealed
+} from './sealedBids.js';
+
+// Dutch auction pricing
+export { isValidDutchSchedule, getDutchPrice } from './dutchPricing.js';
+
+// Uniform-price multi-unit auctions
+export {
+  isValidUnitCount,
+  getRankedUnitBids,
+  allocateUnits,
+  type UnitFill
+} from './uniformPrice.js';
+
+// Proxy bidding
+export { getRankedProxyBids, planProxyBids, type PlannedBid } from './proxyBids.js';
+
+// Bidder escrow
+export { buildEscrowDefinition, getActiveLocks, getEscrowParticipants, recordEscrow, releaseAllEscrow } from './escrow.js';
+
+// Settlement assets
+export { DEFAULT_ASSET, getAuctionAsset, getSupportedAssets, findSupportedAsset } from './assets.js';
+
+// Platform fee and royalty splits
+export { BASIS_POINTS, isValidFeeSplits, getFeePayees, applyFeeSplits } from './feeSplits.js';
+
+// Seller cancellation
+export {
+  isValidCancellationPenalty,
+  getSellerBond,
+  returnSellerBond,
+  hasBids,
+  canCancelAuction,
+  getCancellationPayout,
+  buildCancellationAllocations
+} from './cancellation.js';
+
+// On-chain finalization of settled sales
+export { needsFinalization, finalizeAuctionOnChain, resumeFinalizations } from './onChainFinalization.js';
+
+// Server channel bootstrap and top-ups
+export { listServerChannels, findServerChannel, ensureServerChannel, startChannelMonitor } from './serverChannel.js';
+
+// Ledger balance checks
+export { findLedgerBalance, getLedgerBalance, getCommittedFunds, getAvailableFunds } from './ledgerBalances.js';
+
+// Bid increment rules
+export { isValidIncrementPolicy, getMinimumIncrement, getMinimumNextBid } from './bidIncrements.js';
+
+// Auction catalog and rooms
+export {
+  listAuctions,
+  toAuctionSummary,
+  toSettlementResult,
+  toStandingBids,
+  buildAuctionState
+} from './auctionCatalog.js';
+export {
+  joinAuctionRoom,
+  leaveAuctionRoom,
+  leaveAllAuctionRooms,
+  getAuctionRoom,
+  getSubscribedAuctions,
+  broadcastToAuction
+} from './auctionRooms.js';
+
+// Auction storage
+export {
+  createAuctionRepository,
+  InMemoryAuctionRepository,
+  FileAuctionRepository,
+  type AuctionRepository
+} from './auctionRepository.js';
+
+// Signed request verification
+export {
+  authorizeSessionKey,
+  verifySignedRequest,
+  recoverRequestSigner,
+  resolveIdentity,
+  isRequestIdentity
+} from './requestAuth.js';
@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { findLedgerBalance } from './ledgerBalances.js';
+
+const USDC = { symbol: 'usdc', decimals: 6 };
+const ETH = { symbol: 'eth', decimals: 18 };
+
+describe('findLedgerBalance', () => {
+  it('converts decimal amounts to base units with the asset decimals', () => {
+    assert.equal(findLedgerBalance([{ asset: 'usdc', amount: '100.0' }], USDC), 100_000_000n);
+    assert.equal(findLedgerBalance([{ asset: 'usdc', amount: '0.000001' }], USDC), 1n);
+    assert.equal(findLedgerBalance([{ asset: 'eth', amount: '1.5' }], ETH), 1_500_000_000_000_000_000n);
+  });
+
+  it('accepts whole amounts without a decimal point', () => {
+    assert.equal(findLedgerBalance([{ asset: 'usdc', amount: '42' }], USDC), 42_000_000n);
+  });
+
+  it('picks the balance of the requested asset', () => {
+    const balances = [{ asset: 'eth', amount: '2' }, { asset: 'usdc', amount: '12.5' }];
+    assert.equal(findLedgerBalance(balances, USDC), 12_500_000n);
+  });
+
+  it('is 0 when the participant holds none of the asset', () => {
+    assert.equal(findLedgerBalance([{ asset: 'eth', amount: '2' }], USDC), 0n);
+    assert.equal(findLedgerBalance([], USDC), 0n);
+  });
+
+  it('drops digits beyond the asset decimals rather than rounding up', () => {
+    assert.equal(findLedgerBalance([{ asset: 'usdc', amount: '1.0000019' }], USDC), 1_000_001n);
+    assert.equal(findLedgerBalance([{ asset: 'usdc', amount: '0.0000009' }], USDC), 0n);
+    assert.equal(findLedgerBalance([{ asset: 'nft', amount: '3.75' }], { symbol: 'nft', decimals: 0 }), 3n);
+  });
+
+  it('rejects amounts that are not decimal numbers', () => {
+    assert.throws(() => findLedgerBalance([{ asset: 'usdc', amount: '-1' }], USDC), /invalid usdc balance/);
+    assert.throws(() => findLedgerBalance([{ asset: 'usdc', amount: '1e6' }], USDC), /invalid usdc balance/);
+  });
+});
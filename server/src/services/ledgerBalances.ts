@@ -0,0 +1,88 @@
+/**
+ * Ledger balances
+ * This file checks bidders' unified ClearNode balances against the funds they have committed to auctions
+ */
+import { ethers } from 'ethers';
+import { getResponseList, getRPCClient } from './nitroliteRPC.js';
+import { getAllAuctionSessions } from './appSessions.js';
+import { getActiveLocks } from './escrow.js';
+import { getAuctionAsset } from './assets.js';
+import { AuctionAsset } from '../types.js';
+
+interface LedgerBalance {
+  asset: string;
+  amount: string;
+}
+
+/**
+ * Find an asset's balance in a ClearNode ledger balance list
+ * The ClearNode reports amounts as decimal strings in whole units (e.g. "100.5"), which are
+ * converted to base units with the asset's decimals. Digits beyond those decimals are dropped,
+ * so a balance is never overstated.
+ * @param {LedgerBalance[]} balances - Balances the ClearNode returned
+ * @param {AuctionAsset} asset - Asset to look up
+ * @returns {bigint} Balance in base units, 0 when the list holds none of the asset
+ */
+export function findLedgerBalance(balances: LedgerBalance[], asset: AuctionAsset): bigint {
+  const balance = balances.find((entry) => entry && entry.asset === asset.symbol);
+  if (!balance) {
+    return 0n;
+  }
+
+  const match = /^(\d+)(?:\.(\d*))?$/.exec(String(balance.amount).trim());
+  if (!match) {
+    throw new Error(`ClearNode reported an invalid ${asset.symbol} balance: ${balance.amount}`);
+  }
+
+  const [, whole, fraction = ''] = match;
+  const kept = fraction.slice(0, asset.decimals);
+  return ethers.parseUnits(kept ? `${whole}.${kept}` : whole, asset.decimals);
+}
+
+/**
+ * Get a participant's unified balance of an asset on the ClearNode
+ * @param {string} participant - Participant's address
+ * @param {AuctionAsset} asset - Asset to look up
+ * @returns {Promise<bigint>} Balance in base units, 0 when the participant holds none of the asset
+ */
+export async function getLedgerBalance(participant: string, asset: AuctionAsset): Promise<bigint> {
+  const rpcClient = await getRPCClient();
+  if (!rpcClient) {
+    throw new Error('RPC client not initialized');
+  }
+
+  const response = await rpcClient.sendRequest('get_ledger_balances', [{ participant }]);
+
+  return findLedgerBalance(getResponseList<LedgerBalance>(response), asset);
+}
+
+/**
+ * Get the funds a participant has locked in auctions of an asset that have not been settled
+ * @param {string} participant - Participant's address
+ * @param {string} asset - Asset symbol
+ * @param {string} excludeAuctionId - Auction whose locks are left out, usually the one being bid on
+ * @returns {bigint} Committed funds in base units
+ */
+export function getCommittedFunds(participant: string, asset: string, excludeAuctionId?: string): bigint {
+  const address = ethers.getAddress(participant);
+
+  return getAllAuctionSessions()
+    .filter((session) => session.status !== 'ended' && session.auctionId !== excludeAuctionId)
+    .filter((session) => getAuctionAsset(session).symbol === asset)
+    .flatMap((session) => getActiveLocks(session))
+    .filter((lock) => lock.participant === address)
+    .reduce((total, lock) => total + BigInt(lock.amount), 0n);
+}
+
+/**
+ * Get what a participant can still commit to an auction
+ * Funds locked in the auction itself are not counted, since a new bid replaces them.
+ * @param {string} participant - Participant's address
+ * @param {AuctionAsset} asset - The auction's asset
+ * @param {string} auctionId - Auction being bid on
+ * @returns {Promise<bigint>} Available funds in base units, never below 0
+ */
+export async function getAvailableFunds(participant: string, asset: AuctionAsset, auctionId: string): Promise<bigint> {
+  const available = await getLedgerBalance(participant, asset) - getCommittedFunds(participant, asset.symbol, auctionId);
+  return available > 0n ? available : 0n;
+}
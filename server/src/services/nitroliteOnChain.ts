@@ -2,35 +2,45 @@
  * Nitrolite on-chain operations (separate from WebSocket RPC)
  * This file handles all interactions with the blockchain
  */
+import { NitroliteClient } from "@erc7824/nitrolite";
 import { createPublicClient, createWalletClient, http, type WalletClient, type PublicClient } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
-import { polygon } from "viem/chains";
 import dotenv from "dotenv";
 import logger from "../utils/logger.js";
+import { CHALLENGE_DURATION, CLEARNODE_ADDRESS } from "../config/onChain.js";
+import { DEFAULT_CHAIN_ID, getChainConfig, getViemChain } from "../config/chains.js";
 
 // Load environment variables
 dotenv.config();
 
-// Singleton instances
-let walletClient: WalletClient | null = null;
-let publicClient: PublicClient | null = null;
+interface ChainClients {
+    walletClient: WalletClient;
+    publicClient: PublicClient;
+}
+
+// Clients per chain ID, created once
+const clients = new Map<number, ChainClients>();
 
 /**
- * Initialize wallet and public clients
+ * Initialize wallet and public clients for a chain
  * @param {string} privateKey - Private key for the server wallet
+ * @param {number} chainId - Chain to connect to, the default chain if not given
  * @returns {Promise<{walletClient: WalletClient, publicClient: PublicClient}>} The initialized clients
  */
-export async function initializeClients(privateKey: `0x${string}`): Promise<{
-    walletClient: WalletClient;
-    publicClient: PublicClient;
-}> {
+export async function initializeClients(privateKey: `0x${string}`, chainId: number = DEFAULT_CHAIN_ID): Promise<ChainClients> {
     try {
-        if (walletClient && publicClient) {
-            logger.nitro("Clients already initialized");
-            return { walletClient, publicClient };
+        const existing = clients.get(chainId);
+        if (existing) {
+            logger.nitro(`Clients for chain ${chainId} already initialized`);
+            return existing;
+        }
+
+        const config = getChainConfig(chainId);
+        if (!config) {
+            throw new Error(`Chain ${chainId} is not configured`);
         }
 
-        logger.nitro("Initializing wallet and public clients...");
+        logger.nitro(`Initializing wallet and public clients for chain ${chainId}...`);
 
         // Create wallet from private key
         const wallet = privateKeyToAccount(privateKey);
@@ -38,20 +48,23 @@ export async function initializeClients(privateKey: `0x${string}`): Promise<{
 
         logger.system(`Server wallet initialized with address: ${address}`);
 
+        const chain = getViemChain(config);
+
         // Create public client
-        publicClient = createPublicClient({
-            transport: http(process.env.POLYGON_RPC_URL),
-            chain: polygon,
+        const publicClient = createPublicClient({
+            transport: http(config.rpcUrl),
+            chain,
         });
 
         // Create wallet client
-        walletClient = createWalletClient({
-            transport: http(process.env.POLYGON_RPC_URL),
-            chain: polygon,
+        const walletClient = createWalletClient({
+            transport: http(config.rpcUrl),
+            chain,
             account: wallet,
         });
 
-        logger.nitro("Wallet and public clients initialized successfully");
+        clients.set(chainId, { walletClient, publicClient });
+        logger.nitro(`Wallet and public clients for chain ${chainId} initialized successfully`);
         return { walletClient, publicClient };
     } catch (error) {
         logger.error("Error initializing clients:", error);
@@ -62,23 +75,60 @@ export async function initializeClients(privateKey: `0x${string}`): Promise<{
 /**
  * Get the existing wallet client or initialize a new one
  * @param {string} privateKey - Private key for the server wallet
+ * @param {number} chainId - Chain of the client, the default chain if not given
  * @returns {Promise<WalletClient | null>} The wallet client instance
  */
-export async function getWalletClient(privateKey: `0x${string}`): Promise<WalletClient | null> {
-    if (!walletClient && privateKey) {
-        await initializeClients(privateKey);
+export async function getWalletClient(privateKey: `0x${string}`, chainId: number = DEFAULT_CHAIN_ID): Promise<WalletClient | null> {
+    if (!clients.has(chainId) && privateKey) {
+        await initializeClients(privateKey, chainId);
     }
-    return walletClient;
+    return clients.get(chainId)?.walletClient ?? null;
 }
 
 /**
  * Get the existing public client or initialize a new one
  * @param {string} privateKey - Private key for the server wallet
+ * @param {number} chainId - Chain of the client, the default chain if not given
  * @returns {Promise<PublicClient | null>} The public client instance
  */
-export async function getPublicClient(privateKey: `0x${string}`): Promise<PublicClient | null> {
-    if (!publicClient && privateKey) {
-        await initializeClients(privateKey);
+export async function getPublicClient(privateKey: `0x${string}`, chainId: number = DEFAULT_CHAIN_ID): Promise<PublicClient | null> {
+    if (!clients.has(chainId) && privateKey) {
+        await initializeClients(privateKey, chainId);
     }
-    return publicClient;
-}
\ No newline at end of file
+    return clients.get(chainId)?.publicClient ?? null;
+}
+
+/**
+ * Create a Nitrolite client for the server's channel in a token
+ * @param {string} privateKey - Private key for the server wallet
+ * @param {number} chainId - Chain the channel is on
+ * @param {string} tokenAddress - Token held in the channel
+ * @returns {Promise<NitroliteClient | null>} The client, or null when the chain's custody contracts are not configured
+ */
+export async function getNitroliteClient(
+    privateKey: `0x${string}`,
+    chainId: number,
+    tokenAddress: `0x${string}`
+): Promise<NitroliteClient | null> {
+    const config = getChainConfig(chainId);
+    if (!config?.custody || !config.adjudicator || !CLEARNODE_ADDRESS) {
+        return null;
+    }
+
+    const { walletClient, publicClient } = await initializeClients(privateKey, chainId);
+
+    return new NitroliteClient({
+        publicClient,
+        walletClient,
+        stateWalletClient: walletClient,
+        account: walletClient.account,
+        chainId,
+        challengeDuration: CHALLENGE_DURATION,
+        addresses: {
+            custody: config.custody,
+            adjudicator: config.adjudicator,
+            guestAddress: CLEARNODE_ADDRESS,
+            tokenAddress,
+        },
+    });
+}
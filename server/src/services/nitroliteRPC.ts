@@ -7,6 +7,7 @@ import dotenv from "dotenv";
 import { ethers } from "ethers";
 import WebSocket from "ws";
 
+import { AUTH_SCOPE, AUTH_TYPES, getAuthDomain } from "../config/auth.js";
 import logger from "../utils/logger.js";
 
 import { getWalletClient } from "./nitroliteOnChain.js";
@@ -48,31 +49,6 @@ export enum WSStatus {
     AUTHENTICATING = "authenticating"
 }
 
-/**
- * EIP-712 domain and types for auth_verify challenge
- */
-const getAuthDomain = () => {
-    return {
-        name: "Auction App",
-    };
-};
-
-const AUTH_TYPES = {
-    Policy: [
-        { name: "challenge", type: "string" },
-        { name: "scope", type: "string" },
-        { name: "wallet", type: "address" },
-        { name: "application", type: "address" },
-        { name: "participant", type: "address" },
-        { name: "expire", type: "uint256" },
-        { name: "allowances", type: "Allowance[]" },
-    ],
-    Allowance: [
-        { name: "asset", type: "string" },
-        { name: "amount", type: "uint256" },
-    ],
-};
-
 const expire = String(Math.floor(Date.now() / 1000) + 24 * 60 * 60);
 
 // Load environment variables
@@ -252,7 +228,7 @@ export class NitroliteRPCClient {
         // Create EIP-712 message
         const message = {
             challenge: challengeUUID,
-            scope: "app.auction.app",
+            scope: AUTH_SCOPE,
             wallet: this.address,
             application: this.address,
             participant: this.address,
@@ -307,7 +283,7 @@ export class NitroliteRPCClient {
                         participant: this.address as `0x${string}`,
                         app_name: "Auction App",
                         expire: expire,
-                        scope: "app.auction.app",
+                        scope: AUTH_SCOPE,
                         application: this.address as `0x${string}`,
                         allowances: [],
                     });
@@ -342,7 +318,7 @@ export class NitroliteRPCClient {
                             const hasValidChannel = channels && Array.isArray(channels) && channels.length > 0 && channels[0] !== null;
 
                             if (!hasValidChannel) {
-                                logger.nitro("No valid channels found after authentication, will create one");
+                                logger.nitro("No valid channels found after authentication, the channel bootstrap will create one");
                             }
                         } catch (error) {
                             logger.error("Failed to get channel info, continuing anyway:", error);
@@ -636,7 +612,7 @@ export async function initializeRPCClient(): Promise<NitroliteRPCClient> {
             logger.data("Channel data", channels[0]);
             rpcClient.setChannel(channels[0]);
         } else {
-            logger.nitro("No valid channels found in initializeRPCClient");
+            logger.nitro("No valid channels found in initializeRPCClient, the channel bootstrap will create one");
         }
     } catch (error) {
         logger.error("Error during RPC client initialization:", error);
@@ -648,4 +624,24 @@ export async function initializeRPCClient(): Promise<NitroliteRPCClient> {
 
 export function getRPCClient(): NitroliteRPCClient | null {
     return rpcClient;
-}
\ No newline at end of file
+}
+/**
+ * Get the result a ClearNode response carries as its first parameter
+ * @param {unknown} response - Response from sendRequest
+ * @returns {T | undefined} The first parameter, or undefined if the response has none
+ */
+export function getResponseResult<T>(response: unknown): T | undefined {
+    return Array.isArray(response) ? (response[0] as T | undefined) : undefined;
+}
+
+/**
+ * Get the list a ClearNode response carries as its first parameter
+ * The ClearNode answers list queries with the list as the first parameter, or with the entries
+ * themselves as parameters; an empty list may come back as a single null entry.
+ * @param {unknown} response - Response from sendRequest
+ * @returns {T[]} The listed entries
+ */
+export function getResponseList<T>(response: unknown): T[] {
+    const params = Array.isArray(response) ? response : [];
+    return ((Array.isArray(params[0]) ? params[0] : params) as T[]).filter((entry) => !!entry);
+}
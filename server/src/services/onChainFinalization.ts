@@ -0,0 +1,277 @@
+/**
+ * On-chain finalization
+ * This file submits settled sales through the Nitrolite custody contracts and tracks their transactions until they confirm
+ */
+import { encodeAbiParameters } from 'viem';
+import logger from '../utils/logger.js';
+import { getRPCClient } from './nitroliteRPC.js';
+import { getNitroliteClient, getPublicClient, getWalletClient } from './nitroliteOnChain.js';
+import { getAllAuctionSessions, getAuctionSession, recordFinalization } from './appSessions.js';
+import { getAuctionAsset } from './assets.js';
+import { findServerChannel, getServerKey, requestSignedState, toCandidateState } from './serverChannel.js';
+import { toSettlementResult } from './auctionCatalog.js';
+import { ATTESTATION_ADDRESS, FINALIZATION_CONFIRMATIONS, FINALIZATION_MODE } from '../config/onChain.js';
+import { DEFAULT_CHAIN_ID } from '../config/chains.js';
+import { AuctionSession, FinalizationTransaction, OnChainFinalization } from '../types.js';
+
+type FinalizationCallback = (auction: AuctionSession) => void;
+
+// Finalizations run one at a time, since they all go through the server's channel
+let queue: Promise<void> = Promise.resolve();
+
+// Delay before retrying a finalization that failed after sending its transactions
+const FINALIZATION_RETRY_MS = 60000;
+
+/**
+ * Get what the server itself received when an auction settled, such as the platform fee or a sale of its own
+ * @param {AuctionSession} session - Settled auction session
+ * @returns {bigint} The server's proceeds in base units
+ */
+function getServerProceeds(session: AuctionSession): bigint {
+  const server = session.serverAddress.toLowerCase();
+  return (session.settlement?.allocations || [])
+    .filter((allocation) => allocation.participant.toLowerCase() === server)
+    .reduce((total, allocation) => total + BigInt(allocation.amount), 0n);
+}
+
+/**
+ * Resize or close the server's channel on-chain so it holds the server's proceeds
+ * Throws when the channel has something to do but no channel or custody contracts to do it with.
+ * @param {AuctionSession} session - Settled auction session
+ * @returns {Promise<FinalizationTransaction | null>} The transaction sent, or null when the channel has nothing to do
+ */
+async function submitChannelState(session: AuctionSession): Promise<FinalizationTransaction | null> {
+  const amount = getServerProceeds(session);
+  if (FINALIZATION_MODE === 'resize' && amount === 0n) {
+    return null;
+  }
+
+  const channel = await findServerChannel(getAuctionAsset(session).symbol);
+  if (!channel) {
+    throw new Error(`No open server channel to finalize auction ${session.auctionId} through`);
+  }
+
+  const nitroliteClient = await getNitroliteClient(getServerKey(), channel.chain_id, channel.token);
+  if (!nitroliteClient) {
+    throw new Error(`Custody contracts on chain ${channel.chain_id} are not configured, so the server channel cannot be finalized`);
+  }
+
+  // Closing pays the channel out to the server; resizing moves its proceeds from the ClearNode ledger into the channel
+  const state = FINALIZATION_MODE === 'close'
+    ? await requestSignedState('close_channel', { channel_id: channel.channel_id })
+    : await requestSignedState('resize_channel', { channel_id: channel.channel_id, allocate_amount: amount.toString() });
+  const candidate = toCandidateState(state);
+
+  const hash: `0x${string}` = FINALIZATION_MODE === 'close'
+    ? await nitroliteClient.closeChannel({ stateData: state.state_data, finalState: candidate })
+    : await nitroliteClient.resizeChannel({ resizeState: candidate, proofStates: [] });
+
+  const rpcClient = await getRPCClient();
+  if (FINALIZATION_MODE === 'close' && rpcClient?.getChannel()?.channel_id === channel.channel_id) {
+    rpcClient.setChannel(null);
+  }
+
+  logger.nitro(`Sent ${FINALIZATION_MODE} of channel ${channel.channel_id} for auction ${session.auctionId}: ${hash}`);
+  return { kind: FINALIZATION_MODE, chainId: channel.chain_id, hash, confirmations: 0 };
+}
+
+/**
+ * Write an attestation of an auction's result on the default chain
+ * The attestation is a transaction to the attestation address whose data is the ABI-encoded
+ * auction ID, app session ID, winner and price paid.
+ * @param {AuctionSession} session - Settled auction session
+ * @returns {Promise<FinalizationTransaction | null>} The transaction sent, or null when attestations are not configured
+ */
+async function writeAttestation(session: AuctionSession): Promise<FinalizationTransaction | null> {
+  if (!ATTESTATION_ADDRESS) {
+    return null;
+  }
+
+  const walletClient = await getWalletClient(getServerKey(), DEFAULT_CHAIN_ID);
+  if (!walletClient?.account) {
+    throw new Error('Wallet client not initialized');
+  }
+
+  const result = toSettlementResult(session);
+  const data = encodeAbiParameters(
+    [{ type: 'string' }, { type: 'bytes32' }, { type: 'address' }, { type: 'uint256' }],
+    [session.auctionId, session.appId!, result.winner as `0x${string}`, BigInt(result.finalPrice ?? '0')]
+  );
+
+  const hash = await walletClient.sendTransaction({
+    account: walletClient.account,
+    chain: walletClient.chain,
+    to: ATTESTATION_ADDRESS,
+    data
+  });
+
+  logger.nitro(`Sent result attestation for auction ${session.auctionId}: ${hash}`);
+  return { kind: 'attestation', chainId: DEFAULT_CHAIN_ID, hash, confirmations: 0 };
+}
+
+/**
+ * Wait for a finalization transaction to be mined and confirmed
+ * @param {FinalizationTransaction} transaction - Transaction to wait for, updated with its block and confirmations
+ */
+async function confirmTransaction(transaction: FinalizationTransaction): Promise<void> {
+  const publicClient = await getPublicClient(getServerKey(), transaction.chainId);
+  if (!publicClient) {
+    throw new Error('Public client not initialized');
+  }
+
+  const receipt = await publicClient.waitForTransactionReceipt({
+    hash: transaction.hash,
+    confirmations: FINALIZATION_CONFIRMATIONS
+  });
+  if (receipt.status !== 'success') {
+    transaction.reverted = true;
+    throw new Error(`Transaction ${transaction.hash} reverted`);
+  }
+
+  transaction.blockNumber = receipt.blockNumber.toString();
+  transaction.confirmations = FINALIZATION_CONFIRMATIONS;
+}
+
+/**
+ * Check whether a failed finalization is worth running again
+ * Once a transaction is out, a failure such as losing the chain RPC while waiting for it may
+ * clear up. One that sent nothing failed on the setup (no channel or custody contracts), and a
+ * reverted transaction would revert again, so both stay failed with their error recorded.
+ * @param {OnChainFinalization} finalization - Failed finalization
+ * @returns {boolean} Whether to retry it
+ */
+function isRetryable(finalization: OnChainFinalization): boolean {
+  return finalization.transactions.length > 0
+    && !finalization.transactions.some((transaction) => transaction.reverted);
+}
+
+/**
+ * Send a settled auction's finalization transactions and wait for them to confirm
+ * Transactions are recorded as soon as they are sent, so a resumed or retried finalization only
+ * sends what is missing and otherwise just waits for the recorded ones.
+ * @param {AuctionSession} session - Settled auction session
+ * @param {FinalizationCallback} onUpdate - Called once the transactions are sent and once they confirm or fail
+ */
+async function runFinalization(session: AuctionSession, onUpdate: FinalizationCallback): Promise<void> {
+  const finalization: OnChainFinalization = session.finalization ?? {
+    status: 'pending',
+    transactions: [],
+    startedAt: Date.now()
+  };
+
+  // A retry picks up where the failed attempt stopped
+  if (finalization.status === 'failed') {
+    finalization.status = 'pending';
+    delete finalization.error;
+  }
+
+  try {
+    if (finalization.status === 'pending') {
+      recordFinalization(session, finalization);
+
+      const steps: Array<[FinalizationTransaction['kind'], () => Promise<FinalizationTransaction | null>]> = [
+        [FINALIZATION_MODE, () => submitChannelState(session)],
+        ['attestation', () => writeAttestation(session)]
+      ];
+      for (const [kind, send] of steps) {
+        if (finalization.transactions.some((transaction) => transaction.kind === kind)) {
+          continue;
+        }
+
+        const transaction = await send();
+        if (transaction) {
+          finalization.transactions.push(transaction);
+          recordFinalization(session, finalization);
+        }
+      }
+
+      // The seller's and winner's channels are theirs to settle, so a sale that pays the server
+      // nothing is only finalized through an attestation or a close of the server's channel
+      if (finalization.transactions.length === 0) {
+        logger.warn(`Auction ${session.auctionId} paid the server nothing and ATTESTATION_ADDRESS is not set, so it has no on-chain finalization`);
+        finalization.status = 'skipped';
+        recordFinalization(session, finalization);
+        onUpdate(session);
+        return;
+      }
+
+      finalization.status = 'submitted';
+      recordFinalization(session, finalization);
+      onUpdate(session);
+    }
+
+    for (const transaction of finalization.transactions) {
+      if (!transaction.blockNumber) {
+        await confirmTransaction(transaction);
+        recordFinalization(session, finalization);
+      }
+    }
+
+    finalization.status = 'confirmed';
+    finalization.confirmedAt = Date.now();
+    recordFinalization(session, finalization);
+    logger.nitro(`Finalized auction ${session.auctionId} on-chain`);
+  } catch (error) {
+    logger.error(`Error finalizing auction ${session.auctionId} on-chain:`, error);
+    finalization.status = 'failed';
+    finalization.error = error instanceof Error ? error.message : 'On-chain finalization failed';
+    recordFinalization(session, finalization);
+
+    if (isRetryable(finalization)) {
+      logger.warn(`Retrying on-chain finalization of auction ${session.auctionId} in ${FINALIZATION_RETRY_MS}ms`);
+      setTimeout(() => finalizeAuctionOnChain(session.auctionId, onUpdate), FINALIZATION_RETRY_MS);
+    }
+  }
+
+  onUpdate(session);
+}
+
+/**
+ * Check whether a settled auction still has on-chain finalization to do
+ * @param {AuctionSession} session - Auction session
+ * @returns {boolean} True for sold auctions whose finalization has not confirmed or been skipped,
+ * and has not failed for good
+ */
+export function needsFinalization(session: AuctionSession): boolean {
+  if (session.status !== 'ended' || session.outcome !== 'sold') {
+    return false;
+  }
+
+  const { finalization } = session;
+  return !finalization
+    || finalization.status === 'pending'
+    || finalization.status === 'submitted'
+    || (finalization.status === 'failed' && isRetryable(finalization));
+}
+
+/**
+ * Queue a settled auction for on-chain finalization
+ * Does nothing without a ClearNode connection, as in mock mode.
+ * @param {string} auctionId - Auction ID
+ * @param {FinalizationCallback} onUpdate - Called as the finalization progresses
+ */
+export function finalizeAuctionOnChain(auctionId: string, onUpdate: FinalizationCallback): void {
+  queue = queue
+    .then(async () => {
+      const session = getAuctionSession(auctionId);
+      if (!session || !needsFinalization(session) || !getRPCClient()) {
+        return;
+      }
+
+      await runFinalization(session, onUpdate);
+    })
+    .catch((error) => {
+      logger.error(`Error queuing on-chain finalization of auction ${auctionId}:`, error);
+    });
+}
+
+/**
+ * Resume finalizations a restart interrupted, along with failed ones that can be retried
+ * @param {FinalizationCallback} onUpdate - Called as each finalization progresses
+ * @returns {number} Number of finalizations resumed
+ */
+export function resumeFinalizations(onUpdate: FinalizationCallback): number {
+  const interrupted = getAllAuctionSessions().filter((session) => session.finalization && needsFinalization(session));
+  interrupted.forEach((session) => finalizeAuctionOnChain(session.auctionId, onUpdate));
+  return interrupted.length;
+}
@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getRankedProxyBids, planProxyBids } from './proxyBids.js';
+import { AuctionSession, ProxyBid } from '../types.js';
+import { ALICE, BOB, CAROL, buildAuctionSession } from '../test/fixtures.js';
+
+const proxy = (bidder: string, maxAmount: string, timestamp: number): ProxyBid => ({
+  bidder,
+  maxAmount,
+  timestamp,
+  requestId: timestamp,
+  signature: '0x'
+});
+
+const session = (proxyBids: ProxyBid[], overrides: Partial<AuctionSession> = {}) =>
+  buildAuctionSession({ currentBidder: CAROL, currentBid: '100', proxyBids, ...overrides });
+
+const planned = (auction: AuctionSession) =>
+  planProxyBids(auction).map(({ bidder, amount }) => ({ bidder, amount }));
+
+describe('getRankedProxyBids', () => {
+  it('ranks by maximum, then by who set it first', () => {
+    const ranked = getRankedProxyBids(session([
+      proxy(ALICE, '300', 2),
+      proxy(BOB, '300', 1),
+      proxy(CAROL, '500', 3)
+    ]));
+
+    assert.deepEqual(ranked.map((entry) => entry.bidder), [CAROL, BOB, ALICE]);
+  });
+});
+
+describe('planProxyBids', () => {
+  it('outbids the current bid by one increment', () => {
+    assert.deepEqual(planned(session([proxy(ALICE, '500', 1)])), [{ bidder: ALICE, amount: '101' }]);
+  });
+
+  it('lets a rival proxy bid its maximum before the strongest answers it', () => {
+    assert.deepEqual(planned(session([proxy(ALICE, '500', 1), proxy(BOB, '300', 2)])), [
+      { bidder: BOB, amount: '300' },
+      { bidder: ALICE, amount: '301' }
+    ]);
+  });
+
+  it('gives a tie to the proxy set first, at the shared maximum', () => {
+    assert.deepEqual(planned(session([proxy(ALICE, '300', 2), proxy(BOB, '300', 1)])), [
+      { bidder: ALICE, amount: '300' },
+      { bidder: BOB, amount: '300' }
+    ]);
+  });
+
+  it('caps the leader at its own maximum', () => {
+    const auction = session([proxy(ALICE, '305', 1), proxy(BOB, '300', 2)], {
+      incrementPolicy: { type: 'absolute', amount: '10' }
+    });
+
+    assert.deepEqual(planned(auction), [
+      { bidder: BOB, amount: '300' },
+      { bidder: ALICE, amount: '305' }
+    ]);
+  });
+
+  it('does not bid against a leader nobody has outbid', () => {
+    assert.deepEqual(planned(session([proxy(ALICE, '500', 1)], { currentBidder: ALICE })), []);
+  });
+
+  it('does nothing when the strongest maximum cannot beat the current bid', () => {
+    assert.deepEqual(planned(session([proxy(ALICE, '100', 1)])), []);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Proxy bidding
+ * This file works out the visible bids the server places for bidders' private maximum bids
+ */
+import { getMinimumIncrement, getMinimumNextBid } from './bidIncrements.js';
+import { AuctionSession, ProxyBid } from '../types.js';
+
+export interface PlannedBid {
+  bidder: string;
+  amount: string;
+  proxy: ProxyBid;
+}
+
+/**
+ * Get an auction's proxy bids, strongest first
+ * Equal maximums are ranked by who submitted first, so the earlier proxy wins a tie.
+ * @param {AuctionSession} session - Auction session
+ * @returns {ProxyBid[]} Proxy bids ordered by maximum, then submission time
+ */
+export function getRankedProxyBids(session: AuctionSession): ProxyBid[] {
+  return [...(session.proxyBids || [])].sort((a, b) => {
+    const difference = BigInt(b.maxAmount) - BigInt(a.maxAmount);
+    if (difference !== 0n) {
+      return difference > 0n ? 1 : -1;
+    }
+    return a.timestamp - b.timestamp;
+  });
+}
+
+/**
+ * Work out the visible bids proxies place against the current bid
+ * The strongest proxy ends up leading at one increment over its strongest rival, capped at its
+ * own maximum. A rival proxy that is outbid first shows a bid at its own maximum, as on eBay,
+ * which is the most the rival was willing to pay and reveals nothing about the leader's cap.
+ * @param {AuctionSession} session - Auction session
+ * @returns {PlannedBid[]} Bids to place, in order
+ */
+export function planProxyBids(session: AuctionSession): PlannedBid[] {
+  const [leader, ...others] = getRankedProxyBids(session);
+  if (!leader) {
+    return [];
+  }
+
+  const currentBid = BigInt(session.currentBid);
+  const minNextBid = getMinimumNextBid(session);
+  const isLeading = leader.bidder === session.currentBidder;
+
+  // A proxy can only act if it beats the current bid by the auction's increment
+  if (!isLeading && BigInt(leader.maxAmount) < minNextBid) {
+    return [];
+  }
+
+  const bids: PlannedBid[] = [];
+  let rivalAmount = currentBid;
+
+  // The strongest rival proxy bids up to its maximum before the leader answers
+  const rival = others.find((proxy) => proxy.bidder !== leader.bidder);
+  if (rival) {
+    const rivalMax = BigInt(rival.maxAmount);
+    const canBid = rival.bidder === session.currentBidder ? rivalMax > currentBid : rivalMax >= minNextBid;
+    if (canBid) {
+      bids.push({ bidder: rival.bidder, amount: rival.maxAmount, proxy: rival });
+      rivalAmount = rivalMax;
+    }
+  }
+
+  // A leader nobody has outbid does not bid against itself
+  if (isLeading && bids.length === 0) {
+    return [];
+  }
+
+  const leaderMax = BigInt(leader.maxAmount);
+  const target = rivalAmount + getMinimumIncrement(session.incrementPolicy, rivalAmount);
+  const amount = target < leaderMax ? target : leaderMax;
+  bids.push({ bidder: leader.bidder, amount: amount.toString(), proxy: leader });
+
+  return bids;
+}
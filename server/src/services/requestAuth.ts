@@ -0,0 +1,230 @@
+/**
+ * Signed request verification
+ * This file recovers the signer of client RPC requests, rejects stale or replayed requests
+ * and maps session keys to the wallets that authorized them
+ */
+import { ethers } from 'ethers';
+import logger from '../utils/logger.js';
+import { AUTH_SCOPE, AUTH_TYPES, REQUEST_MAX_AGE_MS, getAuthDomain } from '../config/auth.js';
+
+export type RequestData = [number, string, unknown[], number];
+
+export interface SignedRequest {
+  req: RequestData;
+  sig: string[];
+}
+
+export interface VerifiedRequest {
+  requestId: number;
+  method: string;
+  params: unknown[];
+  timestamp: number;
+  signature: string;
+  // Address that produced the signature (usually a client session key)
+  signer: string;
+  // Wallet the signer acts for: the authorizing EOA, or the signer itself
+  identity: string;
+}
+
+export type VerificationResult =
+  | { ok: true; request: VerifiedRequest }
+  | { ok: false; code: string; msg: string };
+
+export interface AuthPolicy {
+  challenge: string;
+  scope: string;
+  wallet: string;
+  application: string;
+  participant: string;
+  expire: string;
+  allowances: Array<{ asset: string; amount: string }>;
+}
+
+export interface SessionKeyAuthorization {
+  message: AuthPolicy;
+  signature: string;
+}
+
+// Map of session key address to the wallet that authorized it
+const sessionKeys = new Map<string, {
+  wallet: string;
+  expiresAt: number;
+}>();
+
+// Map of signer address to the request IDs it used inside the freshness window, with their timestamps
+const seenRequests = new Map<string, Map<number, number>>();
+
+/**
+ * Record a request ID for a signer, rejecting IDs already used inside the freshness window
+ * @param {string} signer - Recovered signer address
+ * @param {number} requestId - Request ID
+ * @param {number} timestamp - Request timestamp in milliseconds
+ * @returns {boolean} False if the request was already seen
+ */
+function recordRequest(signer: string, requestId: number, timestamp: number): boolean {
+  const now = Date.now();
+  let signerRequests = seenRequests.get(signer);
+
+  if (signerRequests) {
+    // Entries older than the window can be dropped; the timestamp check rejects them anyway
+    for (const [id, seenAt] of signerRequests) {
+      if (now - seenAt > REQUEST_MAX_AGE_MS) {
+        signerRequests.delete(id);
+      }
+    }
+  } else {
+    signerRequests = new Map();
+    seenRequests.set(signer, signerRequests);
+  }
+
+  if (signerRequests.has(requestId)) {
+    return false;
+  }
+
+  signerRequests.set(requestId, timestamp);
+  return true;
+}
+
+/**
+ * Register a session key using the EIP-712 policy the wallet signed for ClearNode auth
+ * @param {SessionKeyAuthorization} authorization - Signed auth policy
+ * @returns {{ sessionKey: string, wallet: string }} The registered key and its wallet
+ * @throws {Error} If the policy is malformed, expired or not signed by its wallet
+ */
+export function authorizeSessionKey(authorization: SessionKeyAuthorization): { sessionKey: string; wallet: string } {
+  const { message, signature } = authorization || {};
+  if (!message || typeof signature !== 'string') {
+    throw new Error('Authorization message and signature are required');
+  }
+
+  if (message.scope !== AUTH_SCOPE) {
+    throw new Error(`Unsupported authorization scope: ${message.scope}`);
+  }
+
+  const expiresAt = Number(message.expire) * 1000;
+  if (!Number.isFinite(expiresAt) || expiresAt <= Date.now()) {
+    throw new Error('Authorization has expired');
+  }
+
+  const wallet = ethers.getAddress(message.wallet);
+  const sessionKey = ethers.getAddress(message.participant);
+  const recovered = ethers.verifyTypedData(getAuthDomain(), AUTH_TYPES, message, signature);
+
+  if (recovered !== wallet) {
+    throw new Error('Authorization was not signed by the wallet');
+  }
+
+  sessionKeys.set(sessionKey, { wallet, expiresAt });
+  logger.auth(`Authorized session key ${sessionKey} for wallet ${wallet}`);
+
+  return { sessionKey, wallet };
+}
+
+/**
+ * Recover the address that signed a request
+ * Clients sign the keccak256 digest of the JSON encoded `req` tuple with their session key
+ * @param {RequestData} req - Request tuple
+ * @param {string} signature - Signature over the request
+ * @returns {string} Checksummed signer address
+ */
+export function recoverRequestSigner(req: RequestData, signature: string): string {
+  const digest = ethers.id(JSON.stringify(req));
+  return ethers.recoverAddress(digest, signature);
+}
+
+/**
+ * Resolve the wallet a signer acts for
+ * @param {string} signer - Recovered signer address
+ * @returns {string} The authorizing wallet, or the signer when it signs for itself
+ */
+export function resolveIdentity(signer: string): string {
+  const authorization = sessionKeys.get(signer);
+  if (authorization && authorization.expiresAt > Date.now()) {
+    return authorization.wallet;
+  }
+
+  if (authorization) {
+    sessionKeys.delete(signer);
+  }
+
+  return signer;
+}
+
+/**
+ * Parse a signed request and verify its method, shape and signature
+ * @param {string} request - JSON encoded signed request
+ * @param {string} method - Expected RPC method
+ * @param {number} paramCount - Expected number of params
+ * @returns {VerificationResult} The verified request or an error code and message
+ */
+export function verifySignedRequest(request: string, method: string, paramCount: number): VerificationResult {
+  let signedRequest: SignedRequest;
+  try {
+    signedRequest = JSON.parse(request);
+  } catch (e) {
+    return { ok: false, code: 'INVALID_REQUEST', msg: 'Signed request is not valid JSON' };
+  }
+
+  if (!signedRequest || !Array.isArray(signedRequest.req) || signedRequest.req.length !== 4) {
+    return { ok: false, code: 'INVALID_REQUEST', msg: 'Invalid signed request format' };
+  }
+
+  const [requestId, requestMethod, params, timestamp] = signedRequest.req;
+
+  if (requestMethod !== method || !Array.isArray(params) || params.length !== paramCount) {
+    return { ok: false, code: 'INVALID_REQUEST', msg: `Invalid ${method} request format` };
+  }
+
+  if (!Number.isSafeInteger(requestId) || !Number.isSafeInteger(timestamp)) {
+    return { ok: false, code: 'INVALID_REQUEST', msg: 'Request ID and timestamp must be integers' };
+  }
+
+  if (Math.abs(Date.now() - timestamp) > REQUEST_MAX_AGE_MS) {
+    return { ok: false, code: 'STALE_REQUEST', msg: `Request timestamp is outside the ${REQUEST_MAX_AGE_MS}ms window` };
+  }
+
+  const signature = Array.isArray(signedRequest.sig) ? signedRequest.sig[0] : undefined;
+  if (typeof signature !== 'string') {
+    return { ok: false, code: 'MISSING_SIGNATURE', msg: 'Request signature is required' };
+  }
+
+  let signer: string;
+  try {
+    signer = recoverRequestSigner(signedRequest.req, signature);
+  } catch (error) {
+    logger.auth(`Failed to recover signer for ${method} request ${requestId}:`, error);
+    return { ok: false, code: 'INVALID_SIGNATURE', msg: 'Invalid request signature' };
+  }
+
+  // Only record IDs once the signature is known to be valid, so nobody can burn another signer's IDs
+  if (!recordRequest(signer, requestId, timestamp)) {
+    logger.auth(`Rejected replayed ${method} request ${requestId} from ${signer}`);
+    return { ok: false, code: 'REPLAYED_REQUEST', msg: 'Request has already been processed' };
+  }
+
+  return {
+    ok: true,
+    request: {
+      requestId,
+      method: requestMethod,
+      params,
+      timestamp,
+      signature,
+      signer,
+      identity: resolveIdentity(signer)
+    }
+  };
+}
+
+/**
+ * Check whether an address param refers to the verified identity
+ * @param {VerifiedRequest} request - Verified request
+ * @param {unknown} address - Address claimed in the request params
+ * @returns {boolean} Whether the address matches the identity
+ */
+export function isRequestIdentity(request: VerifiedRequest, address: unknown): boolean {
+  if (typeof address !== 'string' || !ethers.isAddress(address)) {
+    return false;
+  }
+  return ethers.getAddress(address) === request.identity;
+}
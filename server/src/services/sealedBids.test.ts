@@ -0,0 +1,122 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import {
+  allCommitmentsRevealed,
+  buildSealedSettlement,
+  computeBidCommitment,
+  getRevealedCommitments,
+  isValidSealedBidRule
+} from './sealedBids.js';
+import { AuctionFormat, SealedCommitment } from '../types.js';
+import { ALICE, BOB, CAROL, SELLER, amountOf, buildAuctionSession } from '../test/fixtures.js';
+
+const commitment = (bidder: string, timestamp: number, revealedAmount?: string): SealedCommitment => ({
+  bidder,
+  commitment: '0x',
+  timestamp,
+  requestId: timestamp,
+  signature: '0x',
+  revealedAmount
+});
+
+const session = (format: AuctionFormat, commitments: SealedCommitment[], reservePrice?: string) => buildAuctionSession({
+  format,
+  reservePrice,
+  sealedBid: { revealWindow: 60, penalty: '10' },
+  commitments
+});
+
+describe('computeBidCommitment', () => {
+  it('binds the auction and bidder', () => {
+    const salt = ethers.hexlify(new Uint8Array(32).fill(7));
+    const alice = computeBidCommitment('auction-1', ALICE, '500', salt);
+
+    assert.equal(alice, computeBidCommitment('auction-1', ALICE, '500', salt));
+    assert.notEqual(alice, computeBidCommitment('auction-1', BOB, '500', salt));
+    assert.notEqual(alice, computeBidCommitment('auction-2', ALICE, '500', salt));
+  });
+});
+
+describe('isValidSealedBidRule', () => {
+  it('needs a positive reveal window and an integer penalty', () => {
+    assert.ok(isValidSealedBidRule({ revealWindow: 60, penalty: '0' }));
+    assert.equal(isValidSealedBidRule({ revealWindow: 0, penalty: '10' }), false);
+    assert.equal(isValidSealedBidRule({ revealWindow: 60, penalty: '1.5' }), false);
+  });
+});
+
+describe('getRevealedCommitments', () => {
+  it('ranks revealed bids by amount, then by who committed first', () => {
+    const ranked = getRevealedCommitments(session('sealed', [
+      commitment(ALICE, 2, '300'),
+      commitment(BOB, 1, '300'),
+      commitment(CAROL, 3)
+    ]));
+
+    assert.deepEqual(ranked.map((entry) => entry.bidder), [BOB, ALICE]);
+  });
+});
+
+describe('allCommitmentsRevealed', () => {
+  it('is false without commitments or with a hidden one', () => {
+    assert.equal(allCommitmentsRevealed(session('sealed', [])), false);
+    assert.equal(allCommitmentsRevealed(session('sealed', [commitment(ALICE, 1, '200'), commitment(BOB, 2)])), false);
+    assert.ok(allCommitmentsRevealed(session('sealed', [commitment(ALICE, 1, '200')])));
+  });
+});
+
+describe('buildSealedSettlement', () => {
+  it('charges the winner their own bid in a first-price auction', () => {
+    const settlement = buildSealedSettlement(session('sealed', [
+      commitment(ALICE, 1, '500'),
+      commitment(BOB, 2, '300')
+    ]), 'usdc');
+
+    assert.equal(settlement.outcome, 'sold');
+    assert.equal(settlement.winner, ALICE);
+    assert.equal(settlement.finalPrice, '500');
+    assert.equal(amountOf(settlement.allocations, SELLER), '500');
+    assert.equal(amountOf(settlement.allocations, ALICE), '0');
+    assert.equal(amountOf(settlement.allocations, BOB), '300');
+  });
+
+  it('charges the winner the second-highest bid in a Vickrey auction', () => {
+    const settlement = buildSealedSettlement(session('vickrey', [
+      commitment(ALICE, 1, '500'),
+      commitment(BOB, 2, '300')
+    ]), 'usdc');
+
+    assert.equal(settlement.finalPrice, '300');
+    assert.equal(amountOf(settlement.allocations, SELLER), '300');
+    assert.equal(amountOf(settlement.allocations, ALICE), '200');
+  });
+
+  it('charges a lone Vickrey winner the reserve when it is above the starting price', () => {
+    const settlement = buildSealedSettlement(session('vickrey', [commitment(ALICE, 1, '500')], '250'), 'usdc');
+
+    assert.equal(settlement.finalPrice, '250');
+    assert.equal(amountOf(settlement.allocations, ALICE), '250');
+  });
+
+  it('forfeits unrevealed bonds to the seller without counting them in the sale price', () => {
+    const settlement = buildSealedSettlement(session('sealed', [
+      commitment(ALICE, 1, '500'),
+      commitment(BOB, 2)
+    ]), 'usdc');
+
+    assert.equal(settlement.salePrice, '500');
+    assert.equal(amountOf(settlement.allocations, SELLER), '510');
+    assert.equal(amountOf(settlement.allocations, BOB), '0');
+  });
+
+  it('refunds every revealed bid when none meets the reserve', () => {
+    const settlement = buildSealedSettlement(session('sealed', [commitment(ALICE, 1, '200')], '250'), 'usdc');
+
+    assert.equal(settlement.outcome, 'unsold');
+    assert.equal(settlement.finalPrice, null);
+    assert.equal(settlement.salePrice, '0');
+    assert.equal(amountOf(settlement.allocations, SELLER), '0');
+    assert.equal(amountOf(settlement.allocations, ALICE), '200');
+  });
+});
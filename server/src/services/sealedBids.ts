@@ -0,0 +1,161 @@
+/**
+ * Sealed-bid auctions
+ * This file verifies bid commitments and works out the outcome of commit–reveal auctions
+ */
+import { ethers } from 'ethers';
+import { getSellerBond } from './cancellation.js';
+import { isAmount } from '../utils/amounts.js';
+import { AuctionFormat, AuctionOutcome, AuctionSession, SealedBidRule, SealedCommitment } from '../types.js';
+
+/**
+ * Check whether an auction format takes sealed bids through commit–reveal
+ * @param {AuctionFormat} format - Auction format
+ * @returns {boolean} True for first- and second-price sealed-bid auctions
+ */
+export function isSealedFormat(format?: AuctionFormat): boolean {
+  return format === 'sealed' || format === 'vickrey';
+}
+
+/**
+ * Compute the commitment a bidder submits for a sealed bid
+ * Binding the auction and bidder stops one bidder's commitment being replayed by another.
+ * @param {string} auctionId - Auction ID
+ * @param {string} bidder - Bidder's address
+ * @param {string} amount - Bid amount in base units
+ * @param {string} salt - 32-byte hex salt chosen by the bidder
+ * @returns {string} keccak256 of the packed auction ID, bidder, amount and salt
+ */
+export function computeBidCommitment(auctionId: string, bidder: string, amount: string, salt: string): string {
+  return ethers.solidityPackedKeccak256(
+    ['string', 'address', 'uint256', 'bytes32'],
+    [auctionId, bidder, amount, salt]
+  );
+}
+
+/**
+ * Check that a sealed-bid rule has a positive reveal window and a non-negative penalty
+ * @param {SealedBidRule} rule - Sealed-bid rule
+ * @returns {boolean} Whether the rule is valid
+ */
+export function isValidSealedBidRule(rule: SealedBidRule): boolean {
+  return !!rule
+    && Number.isInteger(rule.revealWindow) && rule.revealWindow > 0
+    && isAmount(rule.penalty);
+}
+
+/**
+ * Get an auction's revealed commitments, best first
+ * Equal amounts are ranked by who committed first.
+ * @param {AuctionSession} session - Auction session
+ * @returns {SealedCommitment[]} Revealed commitments ordered by amount, then commitment time
+ */
+export function getRevealedCommitments(session: AuctionSession): SealedCommitment[] {
+  return (session.commitments || [])
+    .filter((commitment) => commitment.revealedAmount !== undefined)
+    .sort((a, b) => {
+      const difference = BigInt(b.revealedAmount!) - BigInt(a.revealedAmount!);
+      if (difference !== 0n) {
+        return difference > 0n ? 1 : -1;
+      }
+      return a.timestamp - b.timestamp;
+    });
+}
+
+/**
+ * Check whether every commitment on an auction has been revealed
+ * @param {AuctionSession} session - Auction session
+ * @returns {boolean} True if there are commitments and none is still hidden
+ */
+export function allCommitmentsRevealed(session: AuctionSession): boolean {
+  const commitments = session.commitments || [];
+  return commitments.length > 0 && commitments.every((commitment) => commitment.revealedAmount !== undefined);
+}
+
+/**
+ * Build the allocations escrowed in a sealed-bid auction's app session
+ * Hidden commitments hold the penalty bond; revealed ones hold the revealed amount.
+ * @param {AuctionSession} session - Auction session
+ * @param {string} asset - Asset held in the app session
+ * @returns {Array} Seller and bidder allocations
+ */
+export function buildSealedEscrowAllocations(session: AuctionSession, asset: string) {
+  const penalty = session.sealedBid?.penalty ?? '0';
+
+  return [
+    {
+      participant: session.seller as `0x${string}`,
+      asset,
+      amount: getSellerBond(session),
+    },
+    ...(session.commitments || []).map((commitment) => ({
+      participant: commitment.bidder as `0x${string}`,
+      asset,
+      amount: commitment.revealedAmount ?? penalty,
+    }))
+  ];
+}
+
+/**
+ * Work out the winner and final allocations of a sealed-bid auction
+ * The highest revealed bid at or above the starting and reserve prices wins. In a first-price
+ * auction the winner pays their bid; in a Vickrey auction they pay the second-highest valid bid,
+ * or the reserve or starting price if that is higher, and keep the difference.
+ * Other revealed bidders are refunded; bonds of unrevealed commitments go to the seller.
+ * @param {AuctionSession} session - Auction session
+ * @param {string} asset - Asset held in the app session
+ * @returns {{ outcome: AuctionOutcome, winner: string | null, winningBid: string | null, finalPrice: string | null, salePrice: string, allocations: Array }} Settlement
+ */
+export function buildSealedSettlement(session: AuctionSession, asset: string) {
+  const minimum = BigInt(session.startingPrice);
+  const reserve = session.reservePrice ? BigInt(session.reservePrice) : 0n;
+  const penalty = BigInt(session.sealedBid?.penalty ?? '0');
+
+  const [winning, runnerUp] = getRevealedCommitments(session)
+    .filter((commitment) => BigInt(commitment.revealedAmount!) >= minimum);
+  const sold = !!winning && BigInt(winning.revealedAmount!) >= reserve;
+
+  let price = sold ? BigInt(winning.revealedAmount!) : 0n;
+  if (sold && session.format === 'vickrey') {
+    const floor = reserve > minimum ? reserve : minimum;
+    const secondBid = runnerUp ? BigInt(runnerUp.revealedAmount!) : 0n;
+    price = secondBid > floor ? secondBid : floor;
+  }
+
+  let sellerAmount = price;
+  const bidderAllocations = (session.commitments || []).map((commitment) => {
+    let amount: bigint;
+    if (commitment.revealedAmount === undefined) {
+      // Unrevealed commitments forfeit their bond
+      sellerAmount += penalty;
+      amount = 0n;
+    } else {
+      // The winner keeps whatever their bid exceeds the price by
+      const revealed = BigInt(commitment.revealedAmount);
+      amount = sold && commitment === winning ? revealed - price : revealed;
+    }
+
+    return {
+      participant: commitment.bidder as `0x${string}`,
+      asset,
+      amount: amount.toString(),
+    };
+  });
+
+  const outcome: AuctionOutcome = sold ? 'sold' : 'unsold';
+  return {
+    outcome,
+    winner: sold ? winning.bidder : null,
+    winningBid: sold ? winning.revealedAmount! : null,
+    finalPrice: sold ? price.toString() : null,
+    // What the winner paid, without the forfeited bonds the seller also receives
+    salePrice: price.toString(),
+    allocations: [
+      {
+        participant: session.seller as `0x${string}`,
+        asset,
+        amount: sellerAmount.toString(),
+      },
+      ...bidderAllocations
+    ]
+  };
+}
@@ -0,0 +1,371 @@
+/**
+ * Server channel
+ * This file opens, funds and tops up the server's own channel with the ClearNode, and records it on disk
+ */
+import fs from 'fs';
+import path from 'path';
+import logger from '../utils/logger.js';
+import { getResponseList, getResponseResult, getRPCClient } from './nitroliteRPC.js';
+import { getNitroliteClient, getPublicClient } from './nitroliteOnChain.js';
+import { getAssetToken } from './assets.js';
+import { DEFAULT_CHAIN_ID, getChainConfig } from '../config/chains.js';
+import {
+  CHANNEL_ASSET,
+  CHANNEL_CHECK_INTERVAL_MS,
+  CHANNEL_DEPOSIT_AMOUNT,
+  CHANNEL_OPEN_TIMEOUT_MS,
+  CHANNEL_STORE_PATH,
+  CHANNEL_TOP_UP_AMOUNT,
+  CHANNEL_TOP_UP_THRESHOLD
+} from '../config/channel.js';
+
+// A channel as the ClearNode lists it
+export interface ServerChannel {
+  channel_id: `0x${string}`;
+  status: string;
+  token: `0x${string}`;
+  chain_id: number;
+  // Funds held in the channel in base units
+  amount: string;
+}
+
+interface ChannelAllocation {
+  destination: `0x${string}`;
+  token: `0x${string}`;
+  amount: string;
+}
+
+// A channel state co-signed by the ClearNode, ready to submit to the custody contract
+export interface SignedChannelState {
+  channel_id: `0x${string}`;
+  intent: number;
+  version: number;
+  state_data: `0x${string}`;
+  allocations: ChannelAllocation[];
+  server_signature: unknown;
+}
+
+// The server's channel as recorded on disk, written before the ClearNode reports it open
+interface ChannelRecord {
+  channelId: `0x${string}`;
+  chainId: number;
+  token: `0x${string}`;
+  createdAt: number;
+  depositTxHash?: `0x${string}`;
+  createTxHash?: `0x${string}`;
+}
+
+// Delay between checks while waiting for a new channel to open
+const OPEN_POLL_MS = 5000;
+
+// Whether a top-up is running
+let toppingUp = false;
+
+/**
+ * Get the server's private key
+ * @returns {`0x${string}`} The server wallet's private key
+ */
+export function getServerKey(): `0x${string}` {
+  return process.env.SERVER_PRIVATE_KEY as `0x${string}`;
+}
+
+/**
+ * Read the recorded server channel
+ * An unreadable record is moved aside and treated as missing, so the channel is looked up again.
+ * @returns {ChannelRecord | null} The record, or null if no channel has been recorded
+ */
+function loadChannelRecord(): ChannelRecord | null {
+  const filePath = path.resolve(CHANNEL_STORE_PATH);
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  try {
+    const record = JSON.parse(fs.readFileSync(filePath, 'utf8')) as ChannelRecord;
+    if (!record || typeof record.channelId !== 'string') {
+      throw new Error('record has no channel ID');
+    }
+    return record;
+  } catch (error) {
+    // Keep the unreadable record for inspection rather than overwriting it on the next save
+    const corruptPath = `${filePath}.corrupt-${Date.now()}`;
+    fs.renameSync(filePath, corruptPath);
+    logger.error(`Server channel record at ${filePath} is unreadable, moved it to ${corruptPath}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Record the server channel, replacing the file atomically
+ * @param {ChannelRecord} record - Channel to record
+ */
+function saveChannelRecord(record: ChannelRecord): void {
+  const filePath = path.resolve(CHANNEL_STORE_PATH);
+  const tempPath = `${filePath}.tmp`;
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(tempPath, JSON.stringify(record, null, 2));
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * List the server's channels on the ClearNode
+ * @returns {Promise<ServerChannel[]>} The server's channels, open or not
+ */
+export async function listServerChannels(): Promise<ServerChannel[]> {
+  const rpcClient = await getRPCClient();
+  if (!rpcClient) {
+    throw new Error('RPC client not initialized');
+  }
+
+  const participant = rpcClient.getWalletClient().account.address;
+  const response = await rpcClient.sendRequest('get_channels', [{ participant }]);
+  return getResponseList<ServerChannel>(response);
+}
+
+/**
+ * Find the server's open channel that holds an asset
+ * The server may have a channel on each configured chain; only one holding the asset's token can
+ * take funds in it.
+ * @param {string} symbol - Asset symbol
+ * @returns {Promise<ServerChannel | null>} The channel, or null if the server has none for the asset
+ */
+export async function findServerChannel(symbol: string): Promise<ServerChannel | null> {
+  for (const channel of await listServerChannels()) {
+    const chain = channel.status === 'open' ? getChainConfig(channel.chain_id) : null;
+    if (!chain) {
+      continue;
+    }
+
+    const token = chain.tokens[symbol] ?? await getAssetToken(symbol, channel.chain_id);
+    if (token && token.toLowerCase() === channel.token.toLowerCase()) {
+      return channel;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Ask the ClearNode to co-sign a new state of the server's channel
+ * @param {string} method - `resize_channel` or `close_channel`
+ * @param {Object} params - Request parameters, including the channel ID
+ * @returns {Promise<SignedChannelState>} The state to submit on-chain
+ */
+export async function requestSignedState(
+  method: 'resize_channel' | 'close_channel',
+  params: { channel_id: `0x${string}`; [key: string]: unknown }
+): Promise<SignedChannelState> {
+  const rpcClient = await getRPCClient();
+  if (!rpcClient) {
+    throw new Error('RPC client not initialized');
+  }
+
+  const fundsDestination = rpcClient.getWalletClient().account.address;
+  const response = await rpcClient.sendRequest(method, [{ ...params, funds_destination: fundsDestination }]);
+  const state = getResponseResult<SignedChannelState>(response);
+  if (!state?.server_signature) {
+    throw new Error(`ClearNode did not sign the ${method} of channel ${params.channel_id}`);
+  }
+
+  return state;
+}
+
+/**
+ * Convert a ClearNode-signed state into the form the Nitrolite client submits
+ * @param {SignedChannelState} state - Signed state
+ * @returns {Object} The candidate state
+ */
+export function toCandidateState(state: SignedChannelState) {
+  return {
+    channelId: state.channel_id,
+    intent: state.intent,
+    version: BigInt(state.version),
+    data: state.state_data,
+    allocations: state.allocations.map((allocation) => ({
+      destination: allocation.destination,
+      token: allocation.token,
+      amount: BigInt(allocation.amount)
+    })),
+    serverSignature: state.server_signature
+  };
+}
+
+/**
+ * Wait for a transaction to be mined
+ * @param {number} chainId - Chain the transaction was sent on
+ * @param {`0x${string}`} hash - Transaction hash
+ */
+async function waitForTransaction(chainId: number, hash: `0x${string}`): Promise<void> {
+  const publicClient = await getPublicClient(getServerKey(), chainId);
+  if (!publicClient) {
+    throw new Error('Public client not initialized');
+  }
+
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== 'success') {
+    throw new Error(`Transaction ${hash} reverted`);
+  }
+}
+
+/**
+ * Wait until the ClearNode reports a channel as open
+ * @param {`0x${string}`} channelId - Channel ID
+ * @returns {Promise<ServerChannel>} The open channel
+ */
+async function waitForOpenChannel(channelId: `0x${string}`): Promise<ServerChannel> {
+  const deadline = Date.now() + CHANNEL_OPEN_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    const channel = (await listServerChannels()).find((entry) => entry.channel_id === channelId);
+    if (channel?.status === 'open') {
+      return channel;
+    }
+    await new Promise((resolve) => setTimeout(resolve, OPEN_POLL_MS));
+  }
+
+  throw new Error(`Channel ${channelId} did not open within ${CHANNEL_OPEN_TIMEOUT_MS}ms`);
+}
+
+/**
+ * Deposit to the custody contract and open a channel with the ClearNode
+ * @param {number} chainId - Chain to open the channel on
+ * @param {`0x${string}`} token - Token the channel holds
+ * @returns {Promise<ChannelRecord>} The recorded channel, not yet open
+ */
+async function createServerChannel(chainId: number, token: `0x${string}`): Promise<ChannelRecord> {
+  const rpcClient = await getRPCClient();
+  const nitroliteClient = await getNitroliteClient(getServerKey(), chainId, token);
+  if (!rpcClient || !nitroliteClient) {
+    throw new Error(`Custody contracts on chain ${chainId} are not configured`);
+  }
+
+  logger.nitro(`Depositing ${CHANNEL_DEPOSIT_AMOUNT} of ${token} to the custody contract on chain ${chainId}`);
+  const depositTxHash: `0x${string}` = await nitroliteClient.deposit(CHANNEL_DEPOSIT_AMOUNT);
+  await waitForTransaction(chainId, depositTxHash);
+
+  // The ClearNode proposes the channel and signs its initial state
+  const response = await rpcClient.sendRequest('create_channel', [{
+    chain_id: chainId,
+    token,
+    amount: CHANNEL_DEPOSIT_AMOUNT.toString()
+  }]);
+  const proposal = getResponseResult<{ channel: unknown; state: unknown; server_signature: unknown }>(response);
+  if (!proposal?.server_signature) {
+    throw new Error('ClearNode did not sign the new channel');
+  }
+
+  const { channelId, txHash: createTxHash } = await nitroliteClient.createChannel({
+    channel: proposal.channel,
+    unsignedInitialState: proposal.state,
+    serverSignature: proposal.server_signature
+  }) as { channelId: `0x${string}`; txHash: `0x${string}` };
+
+  // Record the channel before waiting on it, so a restart waits for this one rather than opening another
+  const record: ChannelRecord = { channelId, chainId, token, createdAt: Date.now(), depositTxHash, createTxHash };
+  saveChannelRecord(record);
+
+  await waitForTransaction(chainId, createTxHash);
+  logger.nitro(`Created channel ${channelId} on chain ${chainId}: ${createTxHash}`);
+  return record;
+}
+
+/**
+ * Make sure the server has an open channel with the ClearNode, creating and funding one if needed
+ * A recorded channel is reused while the ClearNode still lists it; otherwise an open channel in
+ * the configured asset is adopted, and only then is a new one created on the default chain.
+ * @returns {Promise<ServerChannel | null>} The open channel, or null when channel creation is not configured
+ */
+export async function ensureServerChannel(): Promise<ServerChannel | null> {
+  const rpcClient = await getRPCClient();
+  if (!rpcClient) {
+    throw new Error('RPC client not initialized');
+  }
+
+  let record = loadChannelRecord();
+  const channels = await listServerChannels();
+  const recorded = record ? channels.find((channel) => channel.channel_id === record!.channelId) : undefined;
+
+  let channel: ServerChannel | null = null;
+  if (recorded && recorded.status !== 'closed') {
+    channel = recorded.status === 'open' ? recorded : await waitForOpenChannel(recorded.channel_id);
+  } else {
+    channel = await findServerChannel(CHANNEL_ASSET);
+  }
+
+  if (!channel) {
+    if (CHANNEL_DEPOSIT_AMOUNT === 0n) {
+      logger.nitro('No open server channel and CHANNEL_DEPOSIT_AMOUNT is not set, not creating one');
+      return null;
+    }
+
+    const token = getChainConfig(DEFAULT_CHAIN_ID)?.tokens[CHANNEL_ASSET] ?? await getAssetToken(CHANNEL_ASSET, DEFAULT_CHAIN_ID);
+    if (!token) {
+      logger.nitro(`No ${CHANNEL_ASSET} token on chain ${DEFAULT_CHAIN_ID}, not creating a server channel`);
+      return null;
+    }
+
+    record = await createServerChannel(DEFAULT_CHAIN_ID, token as `0x${string}`);
+    channel = await waitForOpenChannel(record.channelId);
+  }
+
+  if (record?.channelId !== channel.channel_id) {
+    saveChannelRecord({ channelId: channel.channel_id, chainId: channel.chain_id, token: channel.token, createdAt: Date.now() });
+  }
+
+  rpcClient.setChannel(channel);
+  logger.nitro(`Server channel ${channel.channel_id} is open on chain ${channel.chain_id} with ${channel.amount}`);
+  return channel;
+}
+
+/**
+ * Deposit more funds and resize the server's channel to take them in
+ * @param {ServerChannel} channel - The server's open channel
+ */
+async function topUpServerChannel(channel: ServerChannel): Promise<void> {
+  const nitroliteClient = await getNitroliteClient(getServerKey(), channel.chain_id, channel.token);
+  if (!nitroliteClient) {
+    throw new Error(`Custody contracts on chain ${channel.chain_id} are not configured`);
+  }
+
+  logger.nitro(`Topping up channel ${channel.channel_id} by ${CHANNEL_TOP_UP_AMOUNT}`);
+  const depositTxHash: `0x${string}` = await nitroliteClient.deposit(CHANNEL_TOP_UP_AMOUNT);
+  await waitForTransaction(channel.chain_id, depositTxHash);
+
+  const state = await requestSignedState('resize_channel', {
+    channel_id: channel.channel_id,
+    resize_amount: CHANNEL_TOP_UP_AMOUNT.toString()
+  });
+  const resizeTxHash: `0x${string}` = await nitroliteClient.resizeChannel({ resizeState: toCandidateState(state), proofStates: [] });
+  await waitForTransaction(channel.chain_id, resizeTxHash);
+
+  logger.nitro(`Topped up channel ${channel.channel_id}: ${resizeTxHash}`);
+}
+
+/**
+ * Check the server's channel periodically and top it up when it runs low
+ * @returns {NodeJS.Timeout | null} The interval, or null when top-ups are not configured
+ */
+export function startChannelMonitor(): NodeJS.Timeout | null {
+  if (CHANNEL_TOP_UP_THRESHOLD === 0n || CHANNEL_TOP_UP_AMOUNT === 0n) {
+    return null;
+  }
+
+  return setInterval(async () => {
+    const record = loadChannelRecord();
+    if (toppingUp || !record || !getRPCClient()) {
+      return;
+    }
+
+    toppingUp = true;
+    try {
+      const channel = (await listServerChannels()).find((entry) => entry.channel_id === record.channelId);
+      if (channel?.status === 'open' && BigInt(channel.amount) < CHANNEL_TOP_UP_THRESHOLD) {
+        await topUpServerChannel(channel);
+      }
+    } catch (error) {
+      logger.error('Error topping up the server channel:', error);
+    } finally {
+      toppingUp = false;
+    }
+  }, CHANNEL_CHECK_INTERVAL_MS);
+}
@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { allocateUnits, buildUniformSettlement, getRankedUnitBids, isValidUnitCount } from './uniformPrice.js';
+import { UnitBid } from '../types.js';
+import { ALICE, BOB, CAROL, SELLER, amountOf, buildAuctionSession } from '../test/fixtures.js';
+
+const unitBid = (bidder: string, price: string, quantity: number, timestamp: number): UnitBid => ({
+  bidder,
+  price,
+  quantity,
+  timestamp,
+  requestId: timestamp,
+  signature: '0x'
+});
+
+const session = (units: number, unitBids: UnitBid[], reservePrice?: string) => buildAuctionSession({
+  format: 'uniform',
+  startingPrice: '10',
+  currentBid: '10',
+  reservePrice,
+  units,
+  unitBids
+});
+
+describe('isValidUnitCount', () => {
+  it('needs a positive whole number', () => {
+    assert.ok(isValidUnitCount(3));
+    assert.equal(isValidUnitCount(0), false);
+    assert.equal(isValidUnitCount(1.5), false);
+  });
+});
+
+describe('getRankedUnitBids', () => {
+  it('ranks bids by price, then by who bid first', () => {
+    const ranked = getRankedUnitBids(session(1, [
+      unitBid(ALICE, '20', 1, 2),
+      unitBid(BOB, '30', 1, 3),
+      unitBid(CAROL, '20', 1, 1)
+    ]));
+
+    assert.deepEqual(ranked.map((bid) => bid.bidder), [BOB, CAROL, ALICE]);
+  });
+});
+
+describe('allocateUnits', () => {
+  it('fills the best bids and partly fills the last one at the lowest winning price', () => {
+    const { fills, clearingPrice } = allocateUnits(session(4, [
+      unitBid(ALICE, '30', 3, 1),
+      unitBid(BOB, '20', 2, 2),
+      unitBid(CAROL, '15', 5, 3)
+    ]));
+
+    assert.deepEqual(fills.map(({ bidder, quantity }) => ({ bidder, quantity })), [
+      { bidder: ALICE, quantity: 3 },
+      { bidder: BOB, quantity: 1 }
+    ]);
+    assert.equal(clearingPrice, 20n);
+  });
+
+  it('leaves out bids below the reserve', () => {
+    const { fills, clearingPrice } = allocateUnits(session(2, [unitBid(ALICE, '12', 1, 1)], '15'));
+
+    assert.equal(fills.length, 0);
+    assert.equal(clearingPrice, null);
+  });
+});
+
+describe('buildUniformSettlement', () => {
+  it('charges winners the clearing price per unit and refunds the rest', () => {
+    const settlement = buildUniformSettlement(session(4, [
+      unitBid(ALICE, '30', 3, 1),
+      unitBid(BOB, '20', 2, 2),
+      unitBid(CAROL, '15', 5, 3)
+    ]), 'usdc');
+
+    assert.equal(settlement.outcome, 'sold');
+    assert.equal(settlement.finalPrice, '20');
+    assert.equal(settlement.salePrice, '80');
+    assert.equal(amountOf(settlement.allocations, SELLER), '80');
+    // 90 escrowed for three units at 30, three units paid at 20
+    assert.equal(amountOf(settlement.allocations, ALICE), '30');
+    // 40 escrowed for two units at 20, one unit won
+    assert.equal(amountOf(settlement.allocations, BOB), '20');
+    assert.equal(amountOf(settlement.allocations, CAROL), '75');
+  });
+
+  it('refunds everyone when nothing sells', () => {
+    const settlement = buildUniformSettlement(session(2, [unitBid(ALICE, '12', 2, 1)], '15'), 'usdc');
+
+    assert.equal(settlement.outcome, 'unsold');
+    assert.equal(settlement.salePrice, '0');
+    assert.equal(amountOf(settlement.allocations, SELLER), '0');
+    assert.equal(amountOf(settlement.allocations, ALICE), '24');
+  });
+});
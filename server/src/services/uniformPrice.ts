@@ -0,0 +1,133 @@
+/**
+ * Uniform-price auctions
+ * This file allocates the units of multi-unit auctions and works out what each winner pays
+ */
+import { getSellerBond } from './cancellation.js';
+import { AuctionOutcome, AuctionSession, UnitBid } from '../types.js';
+
+export interface UnitFill {
+  bidder: string;
+  // Units won, fewer than bid for when the bidder is only partly filled
+  quantity: number;
+  bid: UnitBid;
+}
+
+/**
+ * Check that a unit count is a positive whole number
+ * @param {number} units - Number of units for sale
+ * @returns {boolean} Whether the unit count is valid
+ */
+export function isValidUnitCount(units: number): boolean {
+  return Number.isInteger(units) && units > 0;
+}
+
+/**
+ * Get an auction's standing unit bids, best first
+ * Equal prices are ranked by who bid first.
+ * @param {AuctionSession} session - Auction session
+ * @returns {UnitBid[]} Unit bids ordered by price, then bid time
+ */
+export function getRankedUnitBids(session: AuctionSession): UnitBid[] {
+  return [...(session.unitBids || [])].sort((a, b) => {
+    const difference = BigInt(b.price) - BigInt(a.price);
+    if (difference !== 0n) {
+      return difference > 0n ? 1 : -1;
+    }
+    return a.timestamp - b.timestamp;
+  });
+}
+
+/**
+ * Allocate an auction's units to its best bids at or above the starting and reserve prices
+ * The last bid to receive units may be only partly filled. Every winner pays the clearing
+ * price, which is the lowest price among the winning bids.
+ * @param {AuctionSession} session - Auction session
+ * @returns {{ fills: UnitFill[], clearingPrice: bigint | null }} Winning fills and the uniform price
+ */
+export function allocateUnits(session: AuctionSession): { fills: UnitFill[]; clearingPrice: bigint | null } {
+  const minimum = BigInt(session.startingPrice);
+  const reserve = session.reservePrice ? BigInt(session.reservePrice) : 0n;
+  const floor = reserve > minimum ? reserve : minimum;
+
+  let remaining = session.units ?? 1;
+  const fills: UnitFill[] = [];
+
+  for (const bid of getRankedUnitBids(session)) {
+    if (remaining === 0 || BigInt(bid.price) < floor) {
+      break;
+    }
+
+    const quantity = Math.min(bid.quantity, remaining);
+    fills.push({ bidder: bid.bidder, quantity, bid });
+    remaining -= quantity;
+  }
+
+  return {
+    fills,
+    clearingPrice: fills.length > 0 ? BigInt(fills[fills.length - 1].bid.price) : null
+  };
+}
+
+/**
+ * Build the allocations escrowed in a uniform-price auction's app session
+ * Each bidder escrows their price times their quantity.
+ * @param {AuctionSession} session - Auction session
+ * @param {string} asset - Asset held in the app session
+ * @returns {Array} Seller and bidder allocations
+ */
+export function buildUniformEscrowAllocations(session: AuctionSession, asset: string) {
+  return [
+    {
+      participant: session.seller as `0x${string}`,
+      asset,
+      amount: getSellerBond(session),
+    },
+    ...(session.unitBids || []).map((bid) => ({
+      participant: bid.bidder as `0x${string}`,
+      asset,
+      amount: (BigInt(bid.price) * BigInt(bid.quantity)).toString(),
+    }))
+  ];
+}
+
+/**
+ * Work out the winners and final allocations of a uniform-price auction
+ * Winners pay the clearing price for each unit they won and get the rest of their escrow back;
+ * losing bidders are refunded in full.
+ * @param {AuctionSession} session - Auction session
+ * @param {string} asset - Asset held in the app session
+ * @returns {{ outcome: AuctionOutcome, fills: UnitFill[], finalPrice: string | null, salePrice: string, allocations: Array }} Settlement
+ */
+export function buildUniformSettlement(session: AuctionSession, asset: string) {
+  const { fills, clearingPrice } = allocateUnits(session);
+  const price = clearingPrice ?? 0n;
+
+  let sellerAmount = 0n;
+  const bidderAllocations = (session.unitBids || []).map((bid) => {
+    const won = BigInt(fills.find((fill) => fill.bid === bid)?.quantity ?? 0);
+    sellerAmount += price * won;
+
+    return {
+      participant: bid.bidder as `0x${string}`,
+      asset,
+      amount: (BigInt(bid.price) * BigInt(bid.quantity) - price * won).toString(),
+    };
+  });
+
+  const outcome: AuctionOutcome = fills.length > 0 ? 'sold' : 'unsold';
+  return {
+    outcome,
+    fills,
+    finalPrice: clearingPrice !== null ? clearingPrice.toString() : null,
+    // What the winners paid for all the units sold
+    salePrice: sellerAmount.toString(),
+    allocations: [
+      {
+        participant: session.seller as `0x${string}`,
+        asset,
+        amount: sellerAmount.toString(),
+      },
+      ...bidderAllocations
+    ]
+  };
+}
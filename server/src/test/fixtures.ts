@@ -0,0 +1,48 @@
+/**
+ * Test fixtures
+ * Builders shared by the unit tests
+ */
+import { AuctionSession } from '../types.js';
+
+export const SERVER = '0x00000000000000000000000000000000000000C1';
+export const SELLER = '0x00000000000000000000000000000000000000A1';
+export const ALICE = '0x00000000000000000000000000000000000000B1';
+export const BOB = '0x00000000000000000000000000000000000000B2';
+export const CAROL = '0x00000000000000000000000000000000000000B3';
+export const CREATED_AT = 1_000_000;
+
+/**
+ * Build a complete auction session, with any fields the test cares about overridden
+ * @param {Partial<AuctionSession>} overrides - Fields to set
+ * @returns {AuctionSession} An active English auction with no bids unless overridden
+ */
+export function buildAuctionSession(overrides: Partial<AuctionSession> = {}): AuctionSession {
+  return {
+    auctionId: 'auction-1',
+    title: 'Test auction',
+    description: 'An auction built for a test',
+    appId: '0x00000000000000000000000000000000000000000000000000000000000000E1',
+    seller: SELLER,
+    currentBidder: null,
+    serverAddress: SERVER,
+    startingPrice: '100',
+    currentBid: '100',
+    createdAt: CREATED_AT,
+    endTime: CREATED_AT + 100_000,
+    originalEndTime: CREATED_AT + 100_000,
+    status: 'active',
+    statusHistory: [{ status: 'active', timestamp: CREATED_AT }],
+    bids: [],
+    ...overrides
+  };
+}
+
+/**
+ * Get a participant's amount in a list of allocations
+ * @param {Array<{ participant: string, amount: string }>} allocations - Allocations
+ * @param {string} participant - Participant's address
+ * @returns {string | undefined} The amount, or undefined when the participant has no allocation
+ */
+export function amountOf(allocations: Array<{ participant: string; amount: string }>, participant: string): string | undefined {
+  return allocations.find((allocation) => allocation.participant === participant)?.amount;
+}
@@ -4,6 +4,17 @@ export interface Bid {
   timestamp: number;
 }
 
+// Sealed-bid auctions pass through `revealing` between bidding and settlement
+export type AuctionStatus = 'active' | 'revealing' | 'ended' | 'finalizing';
+
+// Open ascending auction, sealed-bid auction with commit–reveal where the winner
+// pays their own bid (`sealed`) or the second-highest bid (`vickrey`), descending-price
+// auction won by the first buyer to accept the current price (`dutch`), or open multi-unit
+// auction where every winner pays the lowest winning bid (`uniform`)
+export type AuctionFormat = 'english' | 'sealed' | 'vickrey' | 'dutch' | 'uniform';
+
+export type AuctionOutcome = 'sold' | 'unsold' | 'cancelled';
+
 export interface Auction {
   id: string;
   seller: string;
@@ -11,17 +22,243 @@ export interface Auction {
   currentPrice: bigint;
   highestBidder: string | null;
   endTime: number;
-  status: 'active' | 'ended' | 'finalizing';
+  status: AuctionStatus;
   bids: Bid[];
   appSessionId?: string;
 }
 
+export interface BidRecord {
+  bidder: string;
+  amount: string;
+  timestamp: number;
+  // ID and signature of the signed request that placed the bid
+  requestId: number;
+  signature: string;
+  // Units bid for in uniform-price auctions, at `amount` per unit
+  quantity?: number;
+  // Placed by the server for a bidder's maximum bid, under that request's ID and signature
+  proxy?: boolean;
+}
+
+// Funds a bidder has in an auction's app session, released back to them once outbid or settled
+export interface EscrowLock {
+  participant: string;
+  // Amount currently locked, 0 once released
+  amount: string;
+  status: 'locked' | 'released';
+  updatedAt: number;
+}
+
+// A bidder's private maximum, up to which the server outbids others on their behalf
+export interface ProxyBid {
+  bidder: string;
+  maxAmount: string;
+  timestamp: number;
+  // ID and signature of the signed request that set the maximum
+  requestId: number;
+  signature: string;
+}
+
+// A bidder's standing bid in a uniform-price auction, replaced when they bid again
+export interface UnitBid {
+  bidder: string;
+  // Price per unit in base units
+  price: string;
+  quantity: number;
+  timestamp: number;
+  // ID and signature of the signed request that placed the bid
+  requestId: number;
+  signature: string;
+}
+
+// A hidden bid: the hash of its amount and salt, revealed after bidding closes
+export interface SealedCommitment {
+  bidder: string;
+  commitment: string;
+  timestamp: number;
+  // ID and signature of the signed request that submitted the commitment
+  requestId: number;
+  signature: string;
+  // Set once the bidder reveals a matching amount and salt
+  revealedAmount?: string;
+  revealedAt?: number;
+}
+
+// Reveal phase settings for sealed-bid auctions
+export interface SealedBidRule {
+  // Seconds after bidding closes during which commitments can be revealed
+  revealWindow: number;
+  // Bond escrowed with each commitment, forfeited to the seller if it is never revealed
+  penalty: string;
+}
+
+// How a Dutch auction's price falls from the starting price to its floor: evenly over the
+// auction's duration (`linear`), or by `decrement` every `interval` seconds (`stepwise`)
+export type DutchPriceSchedule =
+  | { type: 'linear'; floorPrice: string }
+  | { type: 'stepwise'; floorPrice: string; decrement: string; interval: number };
+
+export interface StatusTransition {
+  status: AuctionStatus;
+  timestamp: number;
+}
+
+// Asset an auction settles in; every amount is an integer in its smallest unit
+export interface AuctionAsset {
+  symbol: string;
+  decimals: number;
+}
+
+// Share of a sale's proceeds paid to a creator, in basis points
+export interface RoyaltySplit {
+  recipient: string;
+  basisPoints: number;
+}
+
+export interface SettlementAllocation {
+  participant: `0x${string}`;
+  asset: string;
+  amount: string;
+}
+
+// Intended close of an auction's app session, persisted before it is sent so every retry sends the same close
+export interface SettlementJournal {
+  requestId: number;
+  outcome: AuctionOutcome;
+  finalPrice: string | null;
+  allocations: SettlementAllocation[];
+  createdAt: number;
+  // Close requests sent so far
+  attempts: number;
+  // Set once the ClearNode has confirmed the close
+  confirmedAt?: number;
+}
+
+export type FinalizationStatus = 'pending' | 'submitted' | 'confirmed' | 'failed' | 'skipped';
+
+// A transaction sent to finalize a settled auction on-chain
+export interface FinalizationTransaction {
+  kind: 'resize' | 'close' | 'attestation';
+  chainId: number;
+  hash: `0x${string}`;
+  confirmations: number;
+  // Set once the transaction is mined
+  blockNumber?: string;
+  // Set if the transaction was mined but reverted
+  reverted?: boolean;
+}
+
+// Progress of a settled auction's on-chain finalization
+export interface OnChainFinalization {
+  status: FinalizationStatus;
+  transactions: FinalizationTransaction[];
+  startedAt: number;
+  confirmedAt?: number;
+  error?: string;
+}
+
+// Persisted auction state backed by a ClearNode app session
+export interface AuctionSession {
+  auctionId: string;
+  title: string;
+  description: string;
+  // Dutch auctions only open an app session once a buyer accepts the price
+  appId?: `0x${string}`;
+  seller: string;
+  // Missing on auctions stored before formats existed, which are English
+  format?: AuctionFormat;
+  // Missing on auctions stored before assets could be chosen, which settle in USDC
+  asset?: AuctionAsset;
+  currentBidder: string | null;
+  serverAddress: string;
+  startingPrice: string;
+  currentBid: string;
+  createdAt: number;
+  endTime: number;
+  // End time before any soft-close extensions
+  originalEndTime: number;
+  softClose?: SoftCloseRule;
+  // Never sent to clients; only whether it was met is exposed
+  reservePrice?: string;
+  incrementPolicy?: IncrementPolicy;
+  sealedBid?: SealedBidRule;
+  dutchSchedule?: DutchPriceSchedule;
+  // End of the reveal phase, set when a sealed-bid auction stops taking commitments
+  revealEndTime?: number;
+  commitments?: SealedCommitment[];
+  // Never sent to clients; only the bids placed for them are visible
+  proxyBids?: ProxyBid[];
+  // Latest locked amount per bidder, as accepted by the ClearNode
+  escrow?: EscrowLock[];
+  // Escrowed by the seller and paid to the bidders if the auction is cancelled after bidding starts
+  cancellationPenalty?: string;
+  // Platform fee at creation, in basis points; missing on auctions stored before fees existed
+  platformFeeBps?: number;
+  royalties?: RoyaltySplit[];
+  // Identical units for sale in uniform-price auctions, and the bids for them
+  units?: number;
+  unitBids?: UnitBid[];
+  status: AuctionStatus;
+  // Set once the auction has been settled
+  outcome?: AuctionOutcome;
+  // Price the winner paid, which is below the winning bid in second-price auctions,
+  // or the clearing price per unit in uniform-price auctions
+  finalPrice?: string;
+  // Written when settlement or cancellation starts
+  settlement?: SettlementJournal;
+  // Written once a sale is submitted on-chain
+  finalization?: OnChainFinalization;
+  statusHistory: StatusTransition[];
+  bids: BidRecord[];
+}
+
 export interface CreateAuctionRequest {
   seller: string;
   startingPrice: string;
+  // Auction duration in seconds
   duration: number;
 }
 
+// Anti-sniping rule: a bid in the last `window` seconds extends the end time
+// by `extension` seconds, up to `maxExtension` seconds past the original end time
+export interface SoftCloseRule {
+  window: number;
+  extension: number;
+  maxExtension: number;
+}
+
+// Minimum amount a new bid must add over the current bid, in base units
+export type IncrementPolicy =
+  | { type: 'absolute'; amount: string }
+  | { type: 'percentage'; basisPoints: number }
+  // Each tier applies from its `from` price up to the next tier's
+  | { type: 'tiered'; tiers: Array<{ from: string; increment: string }> };
+
+// Optional settings supplied when an auction is created
+export interface AuctionOptions {
+  title?: string;
+  description?: string;
+  // Auction duration in seconds
+  duration?: number;
+  softClose?: SoftCloseRule;
+  // Hidden minimum price the top bid must reach for the item to sell
+  reservePrice?: string;
+  incrementPolicy?: IncrementPolicy;
+  format?: AuctionFormat;
+  // One of the ClearNode's supported assets, USDC by default
+  asset?: AuctionAsset;
+  // Required for sealed-bid auctions
+  sealedBid?: SealedBidRule;
+  // Required for Dutch auctions
+  dutchSchedule?: DutchPriceSchedule;
+  // Required for uniform-price auctions
+  units?: number;
+  // Creator royalties paid out of the proceeds alongside the platform fee
+  royalties?: RoyaltySplit[];
+  // Lets the seller cancel after bidding starts by paying this to the bidders, in base units
+  cancellationPenalty?: string;
+}
+
 export interface PlaceBidRequest {
   bidder: string;
   amount: string;
@@ -0,0 +1,16 @@
+/**
+ * Amounts
+ * This file checks amounts given as decimal strings in an asset's base units
+ */
+
+// Whole number of base units, with no sign, decimal point or exponent
+export const AMOUNT_PATTERN = /^\d+$/;
+
+/**
+ * Check that a value is an amount in base units
+ * @param {unknown} value - Value to check
+ * @returns {boolean} Whether the value is a string of decimal digits
+ */
+export function isAmount(value: unknown): value is string {
+  return typeof value === 'string' && AMOUNT_PATTERN.test(value);
+}